@@ -4,20 +4,76 @@
 */
 
 
-import React, { Suspense } from 'react';
+import React, { Suspense, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Environment } from './components/World/Environment';
-import { Player } from './components/World/Player';
+import { Player, GhostCar } from './components/World/Player';
 import { LevelManager } from './components/World/LevelManager';
 import { Effects } from './components/World/Effects';
+import { ColliderDebug } from './components/World/ColliderDebug';
 import { HUD } from './components/UI/HUD';
+import { PerfOverlay } from './components/UI/PerfOverlay';
 import { useStore } from './store';
+import { GameStatus } from './types';
+import { simulation } from './components/System/Simulation';
+import { replayPlayer, getActiveSimulation, useRunStore } from './components/System/Replay';
+import { ghostRacer } from './components/System/Ghost';
+import { gamepad } from './components/System/Gamepad';
+import { music } from './components/System/Music';
+import { attachPauseHandling } from './components/System/Pause';
+import { adaptiveQuality, frameStats, useQualityLevel } from './components/System/Quality';
+import { useSettings } from './settings';
+import { useMotionScale } from './components/System/Graphics';
+
+// Steps the fixed-timestep simulation once per frame, before anything renders its state
+const SimulationController = () => {
+  useFrame((state, delta) => {
+    if (useStore.getState().status === GameStatus.REPLAY) {
+      replayPlayer.update(delta);
+    } else {
+      simulation.update(delta);
+      ghostRacer.sync();
+    }
+  });
+
+  return null;
+};
+
+// Feeds frame times to adaptive quality, and render counters to the perf overlay
+const QualityController = () => {
+  const gl = useThree(state => state.gl);
+
+  // Count every pass of the effect composer, not just the last one; reset by hand below
+  useEffect(() => {
+    gl.info.autoReset = false;
+    return () => { gl.info.autoReset = true; };
+  }, [gl]);
+
+  // Runs before this frame renders, so the counters still hold the whole of the previous frame
+  useFrame((state, delta) => {
+    adaptiveQuality.sample(delta);
+    frameStats.drawCalls = gl.info.render.calls;
+    frameStats.triangles = gl.info.render.triangles;
+    frameStats.entities = getActiveSimulation().objects.filter(obj => obj.active).length;
+    gl.info.reset();
+  });
+
+  return null;
+};
 
 // Dynamic Camera Controller
 const CameraController = () => {
   const { camera, size } = useThree();
-  const { laneCount } = useStore();
+  const laneCount = useRunStore(state => state.laneCount);
+  const fov = useSettings(state => state.graphics.fov);
+  const motion = useMotionScale();
+
+  useEffect(() => {
+    if (!(camera instanceof THREE.PerspectiveCamera)) return;
+    camera.fov = fov;
+    camera.updateProjectionMatrix();
+  }, [camera, fov]);
   
   useFrame((state, delta) => {
     // Determine if screen is narrow (mobile portrait)
@@ -41,7 +97,8 @@ const CameraController = () => {
     const targetPos = new THREE.Vector3(0, targetY, targetZ);
     
     // Smoothly interpolate camera position
-    camera.position.lerp(targetPos, delta * 2.0);
+    // Eased more gently with reduced motion
+    camera.position.lerp(targetPos, delta * 2.0 * motion);
     
     // Look further down the track to see the end of lanes
     // Adjust look target slightly based on height to maintain angle
@@ -52,15 +109,18 @@ const CameraController = () => {
 };
 
 function Scene() {
+  const showColliders = useSettings(state => state.showColliders);
+
   return (
     <>
         <Environment />
         <group>
-            {/* Attach a userData to identify player group for LevelManager collision logic */}
-            <group userData={{ isPlayer: true }} name="PlayerGroup">
+            <group name="PlayerGroup">
                  <Player />
             </group>
+            <GhostCar />
             <LevelManager />
+            {showColliders && <ColliderDebug />}
         </group>
         <Effects />
     </>
@@ -68,16 +128,24 @@ function Scene() {
 }
 
 function App() {
+  const quality = useQualityLevel();
+  useEffect(() => gamepad.attach(), []);
+  useEffect(() => music.attach(), []);
+  useEffect(() => attachPauseHandling(), []);
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden select-none">
       <HUD />
+      <PerfOverlay />
       <Canvas
-        shadows
-        dpr={[1, 1.5]} 
+        shadows={quality.shadows}
+        dpr={quality.dpr}
         gl={{ antialias: false, stencil: false, depth: true, powerPreference: "high-performance" }}
-        // Initial camera, matches the controller base
+        // Initial camera, matches the controller base; the field of view follows the settings
         camera={{ position: [0, 5.5, 8], fov: 60 }}
       >
+        <SimulationController />
+        <QualityController />
         <CameraController />
         <Suspense fallback={null}>
             <Scene />
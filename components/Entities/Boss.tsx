@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { BossPattern, GameObject, ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { EntityDefinition, UpdateContext, approach, createObject, getLanes, laneX } from './Entity';
+
+// Giant Yokai
+const BOSS_BODY_GEO = new THREE.SphereGeometry(2, 16, 16);
+const BOSS_HORN_GEO = new THREE.ConeGeometry(0.35, 1.6, 6);
+const BOSS_EYE_GEO = new THREE.CircleGeometry(0.6, 24);
+const BOSS_PUPIL_GEO = new THREE.CircleGeometry(0.25, 16);
+const BOSS_RING_GEO = new THREE.TorusGeometry(3, 0.08, 8, 48);
+const BOSS_SHADOW_GEO = new THREE.CircleGeometry(2.5, 24);
+
+const HOLD_Z = -45;         // Flies in from the horizon, then keeps this far ahead
+const DRIFT_SPEED = 2.5;    // Sideways, to hang over the player
+const VOLLEY_STAGGER = 8;   // Track distance between the shots of a staggered pattern
+
+const fireVolley = (boss: GameObject, pattern: BossPattern, { rng, laneCount, player, spawn }: UpdateContext) => {
+    const lanes = getLanes(laneCount);
+    const shots: { lane: number; delay: number }[] = [];
+
+    if (pattern === 'SWEEP') {
+        // Alternates direction each time it comes round
+        const ordered = (boss.volley ?? 0) % 2 === 0 ? lanes : [...lanes].reverse();
+        ordered.forEach((lane, i) => shots.push({ lane, delay: i }));
+    } else if (pattern === 'SPREAD') {
+        const gap = rng.pick(lanes);
+        lanes.filter(lane => lane !== gap).forEach(lane => shots.push({ lane, delay: 0 }));
+    } else {
+        [0, 1, 2].forEach(delay => shots.push({ lane: player.lane, delay }));
+    }
+
+    for (const { lane, delay } of shots) {
+        spawn(createObject(ObjectType.MISSILE, [laneX(lane), 1.5, boss.position[2] + 2 - delay * VOLLEY_STAGGER], {
+            color: '#ff00ff',
+            aggressive: false, // Patterns are meant to be read, so no homing
+            fromBoss: true
+        }));
+    }
+};
+
+// Summoned by the simulation when a boss level's word is complete
+export const Boss: EntityDefinition = {
+    type: ObjectType.BOSS,
+
+    spawn: ({ spawnZ }) => [createObject(ObjectType.BOSS, [0, 4, spawnZ], { color: '#aa00ff', volley: 0 })],
+    role: 'HAZARD',
+    // Never reaches the player; it is fought with charge gems and reflected missiles
+    colliders: () => [],
+    update: (obj, ctx) => {
+        const { dt, def, player, emit } = ctx;
+        obj.position[2] = Math.min(obj.position[2], HOLD_Z);
+        obj.position[0] = approach(obj.position[0], player.x, DRIFT_SPEED * dt);
+
+        if (!def.boss || obj.position[2] < HOLD_Z) return;
+
+        obj.cooldown = (obj.cooldown ?? def.boss.volleyInterval) - dt;
+        if (obj.cooldown > 0) return;
+        obj.cooldown = def.boss.volleyInterval;
+
+        const { patterns } = def.boss;
+        fireVolley(obj, patterns[(obj.volley ?? 0) % patterns.length], ctx);
+        obj.volley = (obj.volley ?? 0) + 1;
+        emit({ type: 'MISSILE_FIRED', object: obj });
+    },
+
+    Renderer: () => (
+        <group>
+            <mesh geometry={BOSS_BODY_GEO}>
+                <meshStandardMaterial color="#330066" metalness={0.8} roughness={0.15} emissive="#220044" />
+            </mesh>
+            {/* Horns */}
+            <mesh position={[1.2, 1.8, 0]} rotation={[0, 0, -0.5]} geometry={BOSS_HORN_GEO}>
+                <meshBasicMaterial color="#aa00ff" />
+            </mesh>
+            <mesh position={[-1.2, 1.8, 0]} rotation={[0, 0, 0.5]} geometry={BOSS_HORN_GEO}>
+                <meshBasicMaterial color="#aa00ff" />
+            </mesh>
+            <mesh position={[0, -2.1, 0]} rotation={[Math.PI, 0, 0]} geometry={BOSS_HORN_GEO}>
+                <meshBasicMaterial color="#aa00ff" />
+            </mesh>
+            {/* Eye */}
+            <mesh position={[0, 0.2, 1.95]} geometry={BOSS_EYE_GEO}>
+                <meshBasicMaterial color="#ffff00" toneMapped={false} />
+            </mesh>
+            <mesh position={[0, 0.2, 1.97]} geometry={BOSS_PUPIL_GEO}>
+                <meshBasicMaterial color="#ff0000" />
+            </mesh>
+            <mesh name="ring" geometry={BOSS_RING_GEO}>
+                <meshBasicMaterial color="#ff00ff" toneMapped={false} transparent opacity={0.6} />
+            </mesh>
+        </group>
+    ),
+    shadow: BOSS_SHADOW_GEO,
+    // Looming hover, with a spinning halo
+    animate: (visual, data, delta, elapsed) => {
+        visual.position.y = data.position[1] + Math.sin(elapsed * 1.5) * 0.4;
+        visual.rotation.z = Math.sin(elapsed * 0.8) * 0.1;
+        const ring = visual.getObjectByName('ring');
+        if (ring) {
+            ring.rotation.x = elapsed * 1.3;
+            ring.rotation.y = elapsed * 0.9;
+        }
+    },
+    effects: (event) => {
+        if (event.type === 'MISSILE_FIRED') return { burst: '#aa00ff' };
+        if (event.type === 'BOSS_HIT') return { sound: () => audio.playBossHit(event.defeated), burst: event.defeated ? '#ffffff' : '#ffff00' };
+        return null;
+    }
+};
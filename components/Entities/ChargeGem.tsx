@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { PICKUP_COLLIDER } from '../System/Colliders';
+import { EntityDefinition, SHADOW_SMALL, createObject, getRandomLane, laneX, spinAndBob } from './Entity';
+
+const CHARGE_GEM_GEO = new THREE.OctahedronGeometry(0.45, 0);
+const CHARGE_RING_GEO = new THREE.TorusGeometry(0.7, 0.05, 6, 24);
+const CHARGE_GEM_MATERIAL = new THREE.MeshStandardMaterial({ color: '#ffdd00', emissive: '#ffdd00', emissiveIntensity: 3, metalness: 1, roughness: 0 });
+const CHARGE_RING_MATERIAL = new THREE.MeshBasicMaterial({ color: '#ffffff', toneMapped: false });
+
+// Only spawned during a boss fight, in place of letters
+export const ChargeGem: EntityDefinition = {
+    type: ObjectType.CHARGE_GEM,
+
+    spawn: ({ rng, state, spawnZ }) => [
+        createObject(ObjectType.CHARGE_GEM, [laneX(getRandomLane(rng, state.laneCount)), 1.2, spawnZ], { color: '#ffdd00' })
+    ],
+    role: 'PICKUP',
+    magnetic: true,
+    colliders: () => [PICKUP_COLLIDER],
+
+    parts: [
+        { geometry: CHARGE_GEM_GEO, material: CHARGE_GEM_MATERIAL },
+        { geometry: CHARGE_RING_GEO, material: CHARGE_RING_MATERIAL, rotation: [Math.PI / 2, 0, 0] }
+    ],
+    shadow: SHADOW_SMALL,
+    animate: spinAndBob,
+    effects: (event) => event.type === 'COLLECT'
+        ? { sound: () => audio.playGemCollect(), burst: event.object.color || '#ffdd00' }
+        : null
+};
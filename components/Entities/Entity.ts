@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import type { GameState } from '../../store';
+import type { PlayerState, SimulationEvent } from '../System/Simulation';
+import { AiProfile, GameObject, ObjectType, LANE_WIDTH, LevelDefinition } from '../../types';
+import { SeededRandom } from '../System/Random';
+import { Collider, ColliderRole } from '../System/Colliders';
+
+// Everything a spawn rule may read; all randomness must come from rng so runs stay reproducible
+export interface SpawnContext {
+  rng: SeededRandom;
+  def: LevelDefinition;
+  state: GameState;
+  player: PlayerState;
+  spawnZ: number;
+}
+
+export interface UpdateContext {
+  dt: number;
+  rng: SeededRandom; // The AI stream, not the spawn one, so behaviour can depend on the player
+  def: LevelDefinition;
+  ai: AiProfile; // The level's profile, already scaled for difficulty
+  laneCount: number;
+  player: PlayerState;
+  spawn: (obj: GameObject) => void;
+  emit: (event: SimulationEvent) => void;
+}
+
+export type EntityEvent = Exclude<SimulationEvent, { type: 'JUMP' }>;
+
+// How an event involving the entity looks and sounds
+export interface EntityEffect {
+  sound?: () => void;
+  burst?: string; // Particle colour
+}
+
+export interface EntityRendererProps {
+  data: GameObject;
+  laneCount: number;
+}
+
+// One mesh of an instanced entity. Every object of the type shares its geometry and material,
+// so anything that varies per object has to go through the node's transform or visibility.
+export interface InstancedPart {
+  name?: string; // Lets animate find the part's node with getObjectByName
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  castShadow?: boolean;
+}
+
+/**
+ * One object type, end to end: spawning, collision, behaviour, rendering and effects.
+ * The simulation half runs headless; the render half is only touched by LevelManager.
+ */
+export interface EntityDefinition {
+  type: ObjectType;
+
+  // Simulation
+  spawn?: (ctx: SpawnContext) => GameObject[];
+  weighted?: boolean; // Spawned by the level's spawnWeights; otherwise only when the simulation asks for it
+  role: ColliderRole;
+  colliders: (obj: GameObject) => Collider[];
+  extraSpeed?: number; // Added to the track speed, for things flying at the player (negative flies away)
+  destructible?: { points: number }; // Blaster shots destroy it, for this score
+  magnetic?: boolean; // Pulled toward the player by a magnet
+  update?: (obj: GameObject, ctx: UpdateContext) => void;
+
+  // Rendering: either a Renderer mounted per object, or parts drawn as one InstancedMesh each for the whole type
+  Renderer?: React.FC<EntityRendererProps>;
+  parts?: InstancedPart[];
+  shadow: THREE.BufferGeometry | null;
+  animate?: (visual: THREE.Group, data: GameObject, delta: number, elapsed: number) => void;
+  effects?: (event: EntityEvent) => EntityEffect | null;
+}
+
+// Objects the simulation has dropped, waiting to be handed out again by createObject
+const OBJECT_POOL: GameObject[] = [];
+const MAX_POOLED_OBJECTS = 512;
+let nextObjectId = 0;
+
+export const createObject = (type: ObjectType, position: GameObject['position'], props: Partial<GameObject> = {}): GameObject =>
+  Object.assign(OBJECT_POOL.pop() ?? {} as GameObject, {
+    id: `${type}-${++nextObjectId}`,
+    type,
+    position,
+    active: true,
+    ...props
+  });
+
+// Hands a dropped object back for reuse; nothing may hold on to it afterwards, so renderers check the id
+export const releaseObject = (obj: GameObject) => {
+  if (!obj.id || OBJECT_POOL.length >= MAX_POOLED_OBJECTS) return;
+  for (const key of Object.keys(obj) as (keyof GameObject)[]) delete (obj as Partial<GameObject>)[key];
+  OBJECT_POOL.push(obj);
+};
+
+export const getLanes = (laneCount: number) => {
+  const maxLane = Math.floor(laneCount / 2);
+  const lanes: number[] = [];
+  for (let i = -maxLane; i <= maxLane; i++) lanes.push(i);
+  return lanes;
+};
+
+export const getRandomLane = (rng: SeededRandom, laneCount: number) => {
+  const max = Math.floor(laneCount / 2);
+  return rng.int(max * 2 + 1) - max;
+};
+
+export const laneX = (lane: number) => lane * LANE_WIDTH;
+export const getLane = (x: number) => Math.round(x / LANE_WIDTH);
+
+// Move value toward target by at most maxStep
+export const approach = (value: number, target: number, maxStep: number) =>
+  value + Math.max(Math.min(target - value, maxStep), -maxStep);
+
+// One lane, or a pair of distinct lanes at the level's pairChance
+export const pickHazardLanes = (rng: SeededRandom, laneCount: number, pairChance: number) => {
+  const lanes = rng.shuffle(getLanes(laneCount));
+  const count = rng.next() < pairChance ? 2 : 1;
+  return lanes.slice(0, count);
+};
+
+// --- SHARED VISUALS ---
+
+export const SHADOW_SMALL = new THREE.CircleGeometry(0.4, 16);
+export const SHADOW_LARGE = new THREE.CircleGeometry(0.8, 16);
+
+export const FONT_URL = "https://cdn.jsdelivr.net/npm/three/examples/fonts/helvetiker_bold.typeface.json";
+
+// Pickups spin and bob in place
+export const spinAndBob = (visual: THREE.Group, data: GameObject, delta: number, elapsed: number) => {
+  visual.rotation.y += delta * 3;
+  visual.position.y = data.position[1] + Math.sin(elapsed * 4 + data.position[0]) * 0.1;
+};
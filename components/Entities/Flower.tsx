@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { HAZARD_HALF_DEPTH, HAZARD_HALF_WIDTH, aabb } from '../System/Colliders';
+import { tintWithPalette } from '../System/Graphics';
+import { EntityDefinition, SHADOW_LARGE, approach, createObject, getLane, laneX, pickHazardLanes } from './Entity';
+
+// Man-eating Plant
+const STEM_GEO = new THREE.CylinderGeometry(0.1, 0.1, 1.2, 8);
+const FLOWER_HEAD_GEO = new THREE.DodecahedronGeometry(0.5);
+const LEAF_GEO = new THREE.PlaneGeometry(0.4, 0.4);
+const STEM_MATERIAL = new THREE.MeshStandardMaterial({ color: '#00aa00', roughness: 0.5 });
+const FLOWER_HEAD_MATERIAL = new THREE.MeshStandardMaterial({ color: '#ff0000', roughness: 0.2, emissive: '#550000' });
+const LEAF_MATERIAL = new THREE.MeshStandardMaterial({ color: '#00aa00', side: THREE.DoubleSide });
+tintWithPalette(FLOWER_HEAD_MATERIAL, palette => palette.flower);
+
+export const Flower: EntityDefinition = {
+    type: ObjectType.FLOWER,
+
+    spawn: ({ rng, def, state, spawnZ }) => pickHazardLanes(rng, state.laneCount, def.pairChance).map(lane =>
+        createObject(ObjectType.FLOWER, [laneX(lane), 0, spawnZ], { color: '#ff0000' })
+    ),
+    weighted: true,
+    role: 'HAZARD',
+    destructible: { points: 200 },
+    colliders: () => [aabb([0, 0.75, 0], [HAZARD_HALF_WIDTH, 0.75, HAZARD_HALF_DEPTH])],
+    // Once the player is close and in the next lane over, it may lunge across into theirs
+    update: (obj, { dt, rng, ai, player }) => {
+        if (obj.aggressive === undefined) {
+            if (obj.position[2] < -ai.flower.lungeRange) return;
+            const adjacent = Math.abs(player.lane - getLane(obj.position[0])) === 1;
+            obj.aggressive = adjacent && rng.next() < ai.flower.lungeChance;
+            if (obj.aggressive) obj.targetX = laneX(player.lane);
+        }
+
+        if (obj.targetX !== undefined) {
+            obj.position[0] = approach(obj.position[0], obj.targetX, ai.flower.lungeSpeed * dt);
+        }
+    },
+
+    parts: [
+        { geometry: STEM_GEO, material: STEM_MATERIAL, position: [0, 0.6, 0] },
+        { geometry: FLOWER_HEAD_GEO, material: FLOWER_HEAD_MATERIAL, position: [0, 1.2, 0] },
+        // Leaves
+        { geometry: LEAF_GEO, material: LEAF_MATERIAL, position: [0.2, 0.6, 0], rotation: [-Math.PI / 4, 0, -Math.PI / 4] },
+        { geometry: LEAF_GEO, material: LEAF_MATERIAL, position: [-0.2, 0.6, 0], rotation: [-Math.PI / 4, 0, Math.PI / 4] }
+    ],
+    shadow: SHADOW_LARGE,
+    // Biting animation, leaning into a lunge
+    animate: (visual, data, delta, elapsed) => {
+        const bite = Math.sin(elapsed * 10);
+        visual.scale.set(1 + bite * 0.1, 1 - bite * 0.1, 1 + bite * 0.1);
+
+        const lunge = data.targetX === undefined ? 0 : Math.sign(data.targetX - data.position[0]);
+        visual.rotation.z += (-lunge * 0.5 - visual.rotation.z) * Math.min(delta * 12, 1);
+    }
+};
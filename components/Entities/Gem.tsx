@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { PICKUP_COLLIDER } from '../System/Colliders';
+import { EntityDefinition, SHADOW_SMALL, createObject, getRandomLane, laneX, spinAndBob } from './Entity';
+
+const GEM_GEOMETRY = new THREE.OctahedronGeometry(0.3, 0);
+const GEM_MATERIAL = new THREE.MeshStandardMaterial({ color: '#00ffff', roughness: 0, metalness: 1, emissive: '#00ffff', emissiveIntensity: 2 });
+
+export const Gem: EntityDefinition = {
+    type: ObjectType.GEM,
+
+    spawn: ({ rng, state, spawnZ }) => [
+        createObject(ObjectType.GEM, [laneX(getRandomLane(rng, state.laneCount)), 1.2, spawnZ], { color: '#00ffff', points: 50 })
+    ],
+    weighted: true,
+    role: 'PICKUP',
+    magnetic: true,
+    colliders: () => [PICKUP_COLLIDER],
+
+    parts: [{ geometry: GEM_GEOMETRY, material: GEM_MATERIAL, castShadow: true }],
+    shadow: SHADOW_SMALL,
+    animate: spinAndBob,
+    effects: (event) => event.type === 'COLLECT'
+        ? { sound: () => audio.playGemCollect(), burst: event.object.color || '#ffffff' }
+        : null
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { Text, Text3D, Center } from '@react-three/drei';
+import { ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { PICKUP_COLLIDER } from '../System/Colliders';
+import { getLetterColor, hasExtrudedGlyph } from '../System/TargetWord';
+import { EntityDefinition, FONT_URL, SHADOW_LARGE, createObject, getRandomLane, laneX, spinAndBob } from './Entity';
+
+const ORDERED_NEXT_LETTER_CHANCE = 0.5; // The rest of ordered-mode letters are out-of-order decoys
+
+export const Letter: EntityDefinition = {
+    type: ObjectType.LETTER,
+
+    // Letters follow their own schedule rather than the weighted spawn; nothing spawns once the word is done
+    spawn: ({ rng, def, state, spawnZ }) => {
+        const { laneCount, targetLetters, collectedLetters } = state;
+        const lane = getRandomLane(rng, laneCount);
+        const availableIndices = targetLetters.map((_, i) => i).filter(i => !collectedLetters.includes(i));
+        if (availableIndices.length === 0) return [];
+
+        // Ordered spelling mixes the next letter with decoys from further along the word
+        const chosenIndex = def.letterMode === 'ORDERED' && rng.next() < ORDERED_NEXT_LETTER_CHANCE
+            ? collectedLetters.length
+            : rng.pick(availableIndices);
+
+        return [createObject(ObjectType.LETTER, [laneX(lane), 1.0, spawnZ], {
+            color: getLetterColor(chosenIndex, targetLetters.length),
+            value: targetLetters[chosenIndex]
+        })];
+    },
+    role: 'PICKUP',
+    colliders: () => [PICKUP_COLLIDER],
+
+    Renderer: ({ data }) => (
+        <group scale={[1.5, 1.5, 1.5]}>
+            {hasExtrudedGlyph(String(data.value)) ? (
+                <Center>
+                    <Text3D
+                        font={FONT_URL}
+                        size={0.8}
+                        height={0.5}
+                        bevelEnabled
+                        bevelThickness={0.02}
+                    >
+                        {data.value}
+                        <meshStandardMaterial color={data.color} emissive={data.color} emissiveIntensity={1.5} />
+                    </Text3D>
+                </Center>
+            ) : (
+                <Text fontSize={1} anchorX="center" anchorY="middle" outlineWidth={0.04} outlineColor="#000">
+                    {data.value}
+                    <meshStandardMaterial color={data.color} emissive={data.color} emissiveIntensity={1.5} side={THREE.DoubleSide} />
+                </Text>
+            )}
+        </group>
+    ),
+    shadow: SHADOW_LARGE,
+    animate: spinAndBob,
+    effects: (event) => {
+        if (event.type === 'COLLECT') return { sound: () => audio.playLetterCollect(), burst: event.object.color || '#ffffff' };
+        if (event.type === 'WRONG_LETTER') return { sound: () => audio.playDamage(), burst: '#ff0000' };
+        return null;
+    }
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { HAZARD_HALF_DEPTH, HAZARD_HALF_WIDTH, aabb } from '../System/Colliders';
+import { tintWithPalette } from '../System/Graphics';
+import { EntityDefinition, SHADOW_SMALL, approach } from './Entity';
+
+const MISSILE_GEO = new THREE.CapsuleGeometry(0.1, 0.6, 4, 8);
+const RETICLE_GEO = new THREE.RingGeometry(0.6, 0.8, 24);
+const MISSILE_MATERIAL = new THREE.MeshStandardMaterial({ color: '#ff00ff', emissive: '#ff00ff', emissiveIntensity: 2 });
+const RETICLE_MATERIAL = new THREE.MeshBasicMaterial({ color: '#ff2200', transparent: true, opacity: 0.7, toneMapped: false });
+tintWithPalette(MISSILE_MATERIAL, palette => palette.missile, true);
+tintWithPalette(RETICLE_MATERIAL, palette => palette.reticle);
+
+const HOMING_CUTOFF = -12; // Stops steering this close, so a last-moment lane change still dodges it
+
+// Only ever fired by monsters, so it has no spawn rule of its own
+export const Missile: EntityDefinition = {
+    type: ObjectType.MISSILE,
+
+    role: 'HAZARD',
+    destructible: { points: 100 },
+    colliders: () => [aabb([0, -0.25, 0], [HAZARD_HALF_WIDTH, 0.75, HAZARD_HALF_DEPTH])],
+    extraSpeed: 30,
+    // Homing missiles telegraph a lock-on, then steer toward the player at a limited rate
+    update: (obj, { dt, rng, ai, player, emit }) => {
+        if (obj.aggressive === undefined) {
+            obj.aggressive = rng.next() < ai.missile.homingChance;
+            if (obj.aggressive) {
+                obj.lockOn = ai.missile.lockOnTime;
+                emit({ type: 'LOCK_ON', object: obj });
+            }
+            return;
+        }
+        if (!obj.aggressive || obj.position[2] > HOMING_CUTOFF) return;
+
+        if (obj.lockOn && obj.lockOn > 0) {
+            obj.lockOn = Math.max(obj.lockOn - dt, 0);
+            return;
+        }
+        obj.position[0] = approach(obj.position[0], player.x, ai.missile.turnRate * dt);
+    },
+
+    // The missile itself, plus a target marker on the track at the player's end while a homing missile is coming
+    parts: [
+        { name: 'body', geometry: MISSILE_GEO, material: MISSILE_MATERIAL, rotation: [Math.PI / 2, 0, 0] },
+        { name: 'reticle', geometry: RETICLE_GEO, material: RETICLE_MATERIAL, rotation: [-Math.PI / 2, 0, 0] }
+    ],
+    shadow: SHADOW_SMALL,
+    animate: (visual, data, delta, elapsed) => {
+        visual.position.y = data.position[1];
+
+        const body = visual.getObjectByName('body');
+        if (body) body.rotation.y += delta * 15;
+
+        const reticle = visual.getObjectByName('reticle');
+        if (!reticle) return;
+        // Blinks fast while locking on, then holds steady while steering
+        const locking = (data.lockOn ?? 0) > 0;
+        reticle.visible = !!data.aggressive && data.position[2] < HOMING_CUTOFF && (!locking || Math.sin(elapsed * 40) > 0);
+        if (!reticle.visible) return;
+
+        // Relative to the missile, so this lands on the track just ahead of the car
+        reticle.position.set(0, 0.05 - data.position[1], -2 - data.position[2]);
+    },
+    effects: (event) => {
+        if (event.type === 'LOCK_ON') return { sound: () => audio.playLockOn() };
+        if (event.type === 'HIT') return { burst: '#ff4400' };
+        return null;
+    }
+};
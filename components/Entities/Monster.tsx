@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { HAZARD_HALF_DEPTH, HAZARD_HALF_WIDTH, aabb } from '../System/Colliders';
+import { tintWithPalette } from '../System/Graphics';
+import { EntityDefinition, SHADOW_LARGE, approach, createObject, laneX, pickHazardLanes } from './Entity';
+
+// Yokai - Ghostly Spirit
+const MONSTER_BODY_GEO = new THREE.SphereGeometry(0.5, 8, 8);
+const MONSTER_SPIKE_GEO = new THREE.ConeGeometry(0.1, 0.4, 4);
+const MONSTER_EYE_GEO = new THREE.CircleGeometry(0.15, 16);
+const MONSTER_BODY_MATERIAL = new THREE.MeshStandardMaterial({ color: '#440088', metalness: 0.8, roughness: 0.1, emissive: '#220044' });
+const MONSTER_SPIKE_MATERIAL = new THREE.MeshBasicMaterial({ color: '#aa00ff' });
+const MONSTER_EYE_MATERIAL = new THREE.MeshBasicMaterial({ color: '#ffff00' });
+tintWithPalette(MONSTER_SPIKE_MATERIAL, palette => palette.monster);
+
+const STRAFE_CUTOFF = -30; // Stops lining up this close, so there is always time to dodge
+
+export const Monster: EntityDefinition = {
+    type: ObjectType.MONSTER,
+
+    spawn: ({ rng, def, state, spawnZ }) => pickHazardLanes(rng, state.laneCount, def.pairChance).map(lane =>
+        createObject(ObjectType.MONSTER, [laneX(lane), 2.0, spawnZ], { color: '#aa00ff', hasFired: false }) // Float high
+    ),
+    weighted: true,
+    role: 'HAZARD',
+    destructible: { points: 300 },
+    // The body floats at y 2; the hitbox hangs below it so it blocks the lane at car height
+    colliders: () => [aabb([0, -1.25, 0], [HAZARD_HALF_WIDTH, 0.75, HAZARD_HALF_DEPTH])],
+    update: (obj, { dt, rng, ai, player, spawn, emit }) => {
+        const z = obj.position[2];
+        if (obj.aggressive === undefined) obj.aggressive = rng.next() < ai.monster.strafeChance;
+
+        // Strafers drift toward whichever lane the player is in
+        if (obj.aggressive && z < STRAFE_CUTOFF) {
+            obj.position[0] = approach(obj.position[0], laneX(player.lane), ai.monster.strafeSpeed * dt);
+        }
+
+        if (!obj.hasFired && z > -ai.monster.fireRange) {
+            obj.hasFired = true;
+            spawn(createObject(ObjectType.MISSILE, [obj.position[0], 1.5, z + 2], { color: '#ff00ff' }));
+            emit({ type: 'MISSILE_FIRED', object: obj });
+        }
+    },
+
+    parts: [
+        { geometry: MONSTER_BODY_GEO, material: MONSTER_BODY_MATERIAL },
+        // Spikes
+        { geometry: MONSTER_SPIKE_GEO, material: MONSTER_SPIKE_MATERIAL, position: [0.4, 0.3, 0], rotation: [0, 0, -0.5] },
+        { geometry: MONSTER_SPIKE_GEO, material: MONSTER_SPIKE_MATERIAL, position: [-0.4, 0.3, 0], rotation: [0, 0, 0.5] },
+        { geometry: MONSTER_SPIKE_GEO, material: MONSTER_SPIKE_MATERIAL, position: [0, -0.5, 0], rotation: [Math.PI, 0, 0] },
+        // Eye
+        { geometry: MONSTER_EYE_GEO, material: MONSTER_EYE_MATERIAL, position: [0, 0, 0.4] }
+    ],
+    shadow: SHADOW_LARGE,
+    // Hover and wobble
+    animate: (visual, data, delta, elapsed) => {
+        visual.position.y = data.position[1] + Math.sin(elapsed * 3) * 0.3;
+        visual.rotation.y += delta;
+    },
+    effects: (event) => event.type === 'MISSILE_FIRED' ? { burst: '#aa00ff' } : null
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { ObjectType, ObstacleKind, LANE_WIDTH } from '../../types';
+import { HAZARD_HALF_DEPTH, HAZARD_HALF_WIDTH, aabb } from '../System/Colliders';
+import { PALETTES, usePalette } from '../System/Graphics';
+import { EntityDefinition, EntityRendererProps, createObject, getLanes, laneX } from './Entity';
+
+// Vertical extent of each debris family, from the track up
+export const OBSTACLE_VOLUMES: Record<ObstacleKind, { bottom: number; top: number }> = {
+    BARRIER: { bottom: 0, top: 0.8 },
+    BEAM: { bottom: 0.9, top: 2.4 },
+    WALL: { bottom: 0, top: 4 }
+};
+
+// One segment per blocked lane
+const BARRIER_GEO = new THREE.BoxGeometry(LANE_WIDTH * 0.95, 0.8, 0.4);
+const BARRIER_STRIPE_GEO = new THREE.BoxGeometry(LANE_WIDTH * 0.95, 0.08, 0.42);
+const BEAM_GEO = new THREE.BoxGeometry(LANE_WIDTH, 1.5, 0.5);
+const BEAM_POST_GEO = new THREE.CylinderGeometry(0.08, 0.08, 2.4, 6);
+const WALL_GEO = new THREE.BoxGeometry(LANE_WIDTH, 4, 0.6);
+
+// Each debris family, drawn lane by lane; heights match OBSTACLE_VOLUMES
+const ObstacleRenderer: React.FC<EntityRendererProps> = ({ data }) => {
+    const lanes = data.lanes ?? [];
+    // Follows the palette setting live, rather than the colour stamped on at spawn
+    const palette = usePalette();
+    const color = data.obstacleKind ? palette.obstacles[data.obstacleKind] : data.color || '#ffffff';
+
+    if (data.obstacleKind === 'BEAM') {
+        const left = Math.min(...lanes) * LANE_WIDTH - LANE_WIDTH / 2;
+        const right = Math.max(...lanes) * LANE_WIDTH + LANE_WIDTH / 2;
+        return (
+            <group>
+                {lanes.map(lane => (
+                    <mesh key={lane} position={[lane * LANE_WIDTH, 1.65, 0]} geometry={BEAM_GEO}>
+                        <meshStandardMaterial color="#220011" emissive={color} emissiveIntensity={0.8} />
+                    </mesh>
+                ))}
+                <mesh position={[left, 1.2, 0]} geometry={BEAM_POST_GEO}>
+                    <meshStandardMaterial color="#444" metalness={0.8} />
+                </mesh>
+                <mesh position={[right, 1.2, 0]} geometry={BEAM_POST_GEO}>
+                    <meshStandardMaterial color="#444" metalness={0.8} />
+                </mesh>
+            </group>
+        );
+    }
+
+    if (data.obstacleKind === 'WALL') {
+        return (
+            <group>
+                {lanes.map(lane => (
+                    <mesh key={lane} position={[lane * LANE_WIDTH, 2, 0]} geometry={WALL_GEO}>
+                        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.4} transparent opacity={0.75} />
+                    </mesh>
+                ))}
+            </group>
+        );
+    }
+
+    // Low barrier
+    return (
+        <group>
+            {lanes.map(lane => (
+                <group key={lane} position={[lane * LANE_WIDTH, 0, 0]}>
+                    <mesh position={[0, 0.4, 0]} geometry={BARRIER_GEO}>
+                        <meshStandardMaterial color="#222" metalness={0.6} roughness={0.4} />
+                    </mesh>
+                    <mesh position={[0, 0.78, 0]} geometry={BARRIER_STRIPE_GEO}>
+                        <meshBasicMaterial color={color} toneMapped={false} />
+                    </mesh>
+                </group>
+            ))}
+        </group>
+    );
+};
+
+export const Obstacle: EntityDefinition = {
+    type: ObjectType.OBSTACLE,
+
+    spawn: ({ rng, def, state, spawnZ }) => {
+        const kind = rng.pick(def.obstacleKinds);
+        const { laneCount } = state;
+        const allLanes = getLanes(laneCount);
+
+        let lanes: number[];
+        if (kind === 'WALL') {
+            // Full width with a single gap
+            const gap = rng.pick(allLanes);
+            lanes = allLanes.filter(lane => lane !== gap);
+        } else {
+            // A run of at least two adjacent lanes
+            const span = Math.min(2 + rng.int(laneCount - 1), laneCount);
+            const start = rng.int(laneCount - span + 1);
+            lanes = allLanes.slice(start, start + span);
+        }
+
+        return [createObject(ObjectType.OBSTACLE, [0, 0, spawnZ], { color: PALETTES.STANDARD.obstacles[kind], obstacleKind: kind, lanes })];
+    },
+    weighted: true,
+    role: 'HAZARD',
+    // Obstacles block whole lanes: one box per lane, sized to the family's volume
+    colliders: (obj) => {
+        if (!obj.obstacleKind) return [];
+        const { bottom, top } = OBSTACLE_VOLUMES[obj.obstacleKind];
+        return (obj.lanes ?? []).map(lane => aabb(
+            [laneX(lane) - obj.position[0], (bottom + top) / 2 - obj.position[1], 0],
+            [HAZARD_HALF_WIDTH, (top - bottom) / 2, HAZARD_HALF_DEPTH]
+        ));
+    },
+
+    Renderer: ObstacleRenderer,
+    // Debris spans lanes and is static, so no shadow blob or animation
+    shadow: null
+};
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { ObjectType, PowerUpKind } from '../../types';
+import { audio } from '../System/Audio';
+import { PICKUP_COLLIDER } from '../System/Colliders';
+import { POWER_UPS, POWER_UP_KINDS } from '../System/PowerUps';
+import { EntityDefinition, EntityRendererProps, SHADOW_SMALL, createObject, getRandomLane, laneX, spinAndBob } from './Entity';
+
+// Every power-up sits in the same glass orb, with a core that says what it does
+const ORB_GEO = new THREE.SphereGeometry(0.6, 20, 20);
+const MAGNET_GEO = new THREE.TorusGeometry(0.25, 0.08, 8, 16, Math.PI);
+const MAGNET_POLE_GEO = new THREE.BoxGeometry(0.16, 0.15, 0.16);
+const SHIELD_GEO = new THREE.IcosahedronGeometry(0.3, 0);
+const HOURGLASS_GEO = new THREE.ConeGeometry(0.22, 0.25, 12);
+const MULTIPLIER_GEO = new THREE.OctahedronGeometry(0.18, 0);
+
+const PowerUpCore: React.FC<{ kind: PowerUpKind; color: string }> = ({ kind, color }) => {
+    const material = <meshBasicMaterial color={color} toneMapped={false} />;
+
+    if (kind === 'MAGNET') {
+        return (
+            <group rotation={[0, 0, Math.PI]} position={[0, 0.08, 0]}>
+                <mesh geometry={MAGNET_GEO}>{material}</mesh>
+                <mesh position={[0.25, -0.07, 0]} geometry={MAGNET_POLE_GEO}>
+                    <meshBasicMaterial color="#ffffff" toneMapped={false} />
+                </mesh>
+                <mesh position={[-0.25, -0.07, 0]} geometry={MAGNET_POLE_GEO}>
+                    <meshBasicMaterial color="#ffffff" toneMapped={false} />
+                </mesh>
+            </group>
+        );
+    }
+    if (kind === 'SLOW_MO') {
+        return (
+            <group>
+                <mesh position={[0, 0.125, 0]} rotation={[Math.PI, 0, 0]} geometry={HOURGLASS_GEO}>{material}</mesh>
+                <mesh position={[0, -0.125, 0]} geometry={HOURGLASS_GEO}>{material}</mesh>
+            </group>
+        );
+    }
+    if (kind === 'MULTIPLIER') {
+        return (
+            <group>
+                <mesh position={[-0.14, 0, 0]} geometry={MULTIPLIER_GEO}>{material}</mesh>
+                <mesh position={[0.14, 0, 0]} geometry={MULTIPLIER_GEO}>{material}</mesh>
+            </group>
+        );
+    }
+    return <mesh geometry={SHIELD_GEO}>{material}</mesh>;
+};
+
+const PowerUpRenderer: React.FC<EntityRendererProps> = ({ data }) => {
+    const kind = data.powerUp ?? 'SHIELD';
+    const color = data.color || POWER_UPS[kind].color;
+    return (
+        <group>
+            <mesh geometry={ORB_GEO}>
+                <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} transparent opacity={0.35} roughness={0} />
+            </mesh>
+            <PowerUpCore kind={kind} color={color} />
+        </group>
+    );
+};
+
+export const PowerUp: EntityDefinition = {
+    type: ObjectType.POWERUP,
+
+    spawn: ({ rng, state, spawnZ }) => {
+        const kind = rng.pick(POWER_UP_KINDS);
+        return [createObject(ObjectType.POWERUP, [laneX(getRandomLane(rng, state.laneCount)), 1.2, spawnZ], {
+            color: POWER_UPS[kind].color,
+            powerUp: kind
+        })];
+    },
+    weighted: true,
+    role: 'PICKUP',
+    colliders: () => [PICKUP_COLLIDER],
+
+    Renderer: PowerUpRenderer,
+    shadow: SHADOW_SMALL,
+    animate: spinAndBob,
+    effects: (event) => event.type === 'COLLECT' && event.object.powerUp
+        ? { sound: () => audio.playPowerUp(event.object.powerUp!), burst: event.object.color || '#ffffff' }
+        : null
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { audio } from '../System/Audio';
+import { aabb } from '../System/Colliders';
+import { EntityDefinition, createObject } from './Entity';
+
+const BOLT_GEO = new THREE.CapsuleGeometry(0.12, 1.2, 4, 8);
+const BOLT_GLOW_GEO = new THREE.CapsuleGeometry(0.25, 1.4, 4, 8);
+const BOLT_MATERIAL = new THREE.MeshBasicMaterial({ color: '#ffffff', toneMapped: false });
+const BOLT_GLOW_MATERIAL = new THREE.MeshBasicMaterial({ color: '#33ffcc', toneMapped: false, transparent: true, opacity: 0.5 });
+
+// Fired by the player from their current position, rather than placed on the track
+export const Projectile: EntityDefinition = {
+    type: ObjectType.PROJECTILE,
+
+    spawn: ({ player, spawnZ }) => [createObject(ObjectType.PROJECTILE, [player.x, 0.8, spawnZ], { color: '#33ffcc' })],
+    role: 'PROJECTILE',
+    colliders: () => [aabb([0, 0, 0], [0.4, 0.5, 1])],
+    extraSpeed: -160,
+
+    // Lying along the track
+    parts: [
+        { geometry: BOLT_GEO, material: BOLT_MATERIAL, rotation: [Math.PI / 2, 0, 0] },
+        { geometry: BOLT_GLOW_GEO, material: BOLT_GLOW_MATERIAL, rotation: [Math.PI / 2, 0, 0] }
+    ],
+    shadow: null,
+    effects: (event) => event.type === 'FIRED' ? { sound: () => audio.playBlaster() } : null
+};
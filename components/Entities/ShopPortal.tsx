@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { Text3D, Center } from '@react-three/drei';
+import { ObjectType, LANE_WIDTH } from '../../types';
+import { aabb } from '../System/Colliders';
+import { EntityDefinition, FONT_URL, createObject } from './Entity';
+
+const SHOP_FRAME_GEO = new THREE.BoxGeometry(1, 7, 1);
+const SHOP_BACK_GEO = new THREE.BoxGeometry(1, 5, 1.2);
+const SHOP_OUTLINE_GEO = new THREE.BoxGeometry(1, 7.2, 0.8);
+
+// Placed at the start of every level after the first, not by the weighted spawn
+export const ShopPortal: EntityDefinition = {
+    type: ObjectType.SHOP_PORTAL,
+
+    spawn: ({ spawnZ }) => [createObject(ObjectType.SHOP_PORTAL, [0, 0, spawnZ])],
+    role: 'TRIGGER',
+    // Spans the whole track
+    colliders: () => [aabb([0, 0, 0], [100, 100, 1.1])],
+
+    Renderer: ({ laneCount }) => (
+        <group>
+            <mesh position={[0, 3, 0]} geometry={SHOP_FRAME_GEO} scale={[laneCount * LANE_WIDTH + 2, 1, 1]}>
+                <meshStandardMaterial color="#222" metalness={0.8} />
+            </mesh>
+            <mesh position={[0, 2, 0]} geometry={SHOP_BACK_GEO} scale={[laneCount * LANE_WIDTH, 1, 1]}>
+                <meshBasicMaterial color="#000" />
+            </mesh>
+            <mesh position={[0, 3, 0]} geometry={SHOP_OUTLINE_GEO} scale={[laneCount * LANE_WIDTH + 2.2, 1, 1]}>
+                <meshBasicMaterial color="#0ff" wireframe opacity={0.3} transparent />
+            </mesh>
+            <Center position={[0, 5, 0.6]}>
+                <Text3D font={FONT_URL} size={1.2} height={0.2}>
+                    PIT STOP
+                    <meshBasicMaterial color="#ff0" />
+                </Text3D>
+            </Center>
+        </group>
+    ),
+    shadow: null,
+    animate: (visual, data, delta, elapsed) => {
+        visual.scale.setScalar(1 + Math.sin(elapsed * 2) * 0.02);
+    }
+};
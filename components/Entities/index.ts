@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../../types';
+import { EntityDefinition } from './Entity';
+import { Gem } from './Gem';
+import { Letter } from './Letter';
+import { Flower } from './Flower';
+import { Monster } from './Monster';
+import { Missile } from './Missile';
+import { Obstacle } from './Obstacle';
+import { ShopPortal } from './ShopPortal';
+import { Boss } from './Boss';
+import { ChargeGem } from './ChargeGem';
+import { Projectile } from './Projectile';
+import { PowerUp } from './PowerUp';
+
+/**
+ * Every object type the game knows about. To add one, add its ObjectType and a
+ * module exporting an EntityDefinition, then list it here.
+ */
+export const ENTITY_REGISTRY: Record<ObjectType, EntityDefinition> = {
+  [ObjectType.GEM]: Gem,
+  [ObjectType.LETTER]: Letter,
+  [ObjectType.FLOWER]: Flower,
+  [ObjectType.MONSTER]: Monster,
+  [ObjectType.MISSILE]: Missile,
+  [ObjectType.OBSTACLE]: Obstacle,
+  [ObjectType.SHOP_PORTAL]: ShopPortal,
+  [ObjectType.BOSS]: Boss,
+  [ObjectType.CHARGE_GEM]: ChargeGem,
+  [ObjectType.PROJECTILE]: Projectile,
+  [ObjectType.POWERUP]: PowerUp
+};
+
+export const getEntity = (type: ObjectType) => ENTITY_REGISTRY[type];
+
+export type { EntityDefinition, EntityEvent, EntityEffect, EntityRendererProps, InstancedPart, SpawnContext, UpdateContext } from './Entity';
@@ -4,27 +4,127 @@
 */
 
 
+import { PowerUpKind } from '../../types';
+import { AudioSettings, useSettings } from '../../settings';
+
+export type AudioBus = 'music' | 'sfx' | 'ui';
+
+const MASTER_LEVEL = 0.4;   // Headroom under the limiter at full master volume
+const VOLUME_RAMP = 0.05;   // Seconds; volume changes glide rather than click
+const DUCK_LEVEL = 0.3;     // Music drops to this share while damage plays
+const DUCK_HOLD = 0.35;     // Seconds before it starts coming back
+
+// Waveform and notes (Hz) of each power-up's pickup cue
+const POWER_UP_CUES: Record<PowerUpKind, [OscillatorType, number[]]> = {
+  MAGNET: ['square', [440, 660, 880]],
+  SHIELD: ['triangle', [523.25, 783.99, 1046.5]],
+  SLOW_MO: ['sine', [880, 659.25, 440]],  // Falls, like time slowing down
+  MULTIPLIER: ['sawtooth', [659.25, 987.77, 1318.51, 1975.53]]
+};
+
+/**
+ * Every sound goes to one of the buses; buses feed the master gain, which feeds a limiter so
+ * stacked sounds (a burst of gem pickups, say) can't clip. Music has an extra ducking stage.
+ */
 export class AudioController {
   ctx: AudioContext | null = null;
   masterGain: GainNode | null = null;
+  private buses: Record<AudioBus, GainNode> | null = null;
+  private duckGain: GainNode | null = null;
 
   constructor() {
-    // Lazy initialization
+    // Lazy initialization; volumes follow the settings from then on
+    useSettings.subscribe((state, prev) => {
+      if (state.audio !== prev.audio) this.applyVolumes(state.audio);
+    });
   }
 
   init() {
     if (!this.ctx) {
       // Support for standard and webkit prefixed AudioContext
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+      const limiter = this.ctx.createDynamicsCompressor();
+      limiter.threshold.value = -6;
+      limiter.knee.value = 0;
+      limiter.ratio.value = 20;
+      limiter.attack.value = 0.003;
+      limiter.release.value = 0.1;
+      limiter.connect(this.ctx.destination);
+
       this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.4; // Master volume
-      this.masterGain.connect(this.ctx.destination);
+      this.masterGain.connect(limiter);
+
+      this.duckGain = this.ctx.createGain();
+      this.duckGain.connect(this.masterGain);
+
+      this.buses = {
+        music: this.ctx.createGain(),
+        sfx: this.ctx.createGain(),
+        ui: this.ctx.createGain()
+      };
+      this.buses.music.connect(this.duckGain);
+      this.buses.sfx.connect(this.masterGain);
+      this.buses.ui.connect(this.masterGain);
+
+      this.applyVolumes(useSettings.getState().audio, true);
     }
     if (this.ctx.state === 'suspended') {
       this.ctx.resume().catch(() => {});
     }
   }
 
+  // Where a sound for the bus should connect; only valid once init has run
+  bus(name: AudioBus): AudioNode {
+    return this.buses![name];
+  }
+
+  private applyVolumes({ master, music, sfx, ui, muted }: AudioSettings, immediate = false) {
+    if (!this.ctx || !this.masterGain || !this.buses) return;
+    const t = this.ctx.currentTime;
+    const set = (gain: GainNode, value: number) => {
+      if (immediate) gain.gain.value = value;
+      else gain.gain.setTargetAtTime(value, t, VOLUME_RAMP);
+    };
+
+    set(this.masterGain, muted ? 0 : master * MASTER_LEVEL);
+    set(this.buses.music, music);
+    set(this.buses.sfx, sfx);
+    set(this.buses.ui, ui);
+  }
+
+  // Pulls the music down under a hit, then lets it swell back
+  private duckMusic() {
+    if (!this.ctx || !this.duckGain) return;
+    const t = this.ctx.currentTime;
+    const gain = this.duckGain.gain;
+    gain.cancelScheduledValues(t);
+    gain.setTargetAtTime(DUCK_LEVEL, t, 0.02);
+    gain.setTargetAtTime(1, t + DUCK_HOLD, 0.3);
+  }
+
+  playUiClick() {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Short soft tick
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(1800, t);
+
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.05);
+
+    osc.connect(gain);
+    gain.connect(this.bus('ui'));
+
+    osc.start(t);
+    osc.stop(t + 0.05);
+  }
+
   playGemCollect() {
     if (!this.ctx || !this.masterGain) this.init();
     if (!this.ctx || !this.masterGain) return;
@@ -42,7 +142,7 @@ export class AudioController {
     gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.bus('sfx'));
 
     osc.start(t);
     osc.stop(t + 0.15);
@@ -72,7 +172,7 @@ export class AudioController {
         gain.gain.exponentialRampToValueAtTime(0.01, start + dur);
 
         osc.connect(gain);
-        gain.connect(this.masterGain!);
+        gain.connect(this.bus('sfx'));
         
         osc.start(start);
         osc.stop(start + dur);
@@ -102,17 +202,199 @@ export class AudioController {
     gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.bus('sfx'));
 
     osc.start(t);
     osc.stop(t + 0.15);
   }
 
+  playLockOn() {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+
+    // Two sharp beeps, like a targeting alarm
+    [0, 0.12].forEach(offset => {
+        const osc = this.ctx!.createOscillator();
+        const gain = this.ctx!.createGain();
+
+        osc.type = 'square';
+        osc.frequency.value = 1760;
+
+        const start = t + offset;
+        gain.gain.setValueAtTime(0.15, start);
+        gain.gain.exponentialRampToValueAtTime(0.01, start + 0.08);
+
+        osc.connect(gain);
+        gain.connect(this.bus('sfx'));
+
+        osc.start(start);
+        osc.stop(start + 0.08);
+    });
+  }
+
+  playBossHit(defeated = false) {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const dur = defeated ? 1.2 : 0.4;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Deep falling boom, drawn out when the boss goes down
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(defeated ? 220 : 160, t);
+    osc.frequency.exponentialRampToValueAtTime(30, t + dur);
+
+    gain.gain.setValueAtTime(0.5, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + dur);
+
+    osc.connect(gain);
+    gain.connect(this.bus('sfx'));
+
+    osc.start(t);
+    osc.stop(t + dur);
+  }
+
+  playBlaster() {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Quick descending zap
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(1400, t);
+    osc.frequency.exponentialRampToValueAtTime(200, t + 0.15);
+
+    gain.gain.setValueAtTime(0.2, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+
+    osc.connect(gain);
+    gain.connect(this.bus('sfx'));
+
+    osc.start(t);
+    osc.stop(t + 0.15);
+  }
+
+  playExplosion() {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+
+    // Filtered noise burst that closes down as it fades
+    const bufferSize = this.ctx.sampleRate * 0.5;
+    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) {
+        data[i] = Math.random() * 2 - 1;
+    }
+
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = buffer;
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(3000, t);
+    filter.frequency.exponentialRampToValueAtTime(100, t + 0.5);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.5, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
+
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.bus('sfx'));
+
+    noise.start(t);
+    noise.stop(t + 0.5);
+  }
+
+  playPowerUp(kind: PowerUpKind) {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const [type, notes] = POWER_UP_CUES[kind];
+
+    // A short arpeggio, different for each kind
+    notes.forEach((freq, i) => {
+        const osc = this.ctx!.createOscillator();
+        const gain = this.ctx!.createGain();
+
+        osc.type = type;
+        osc.frequency.value = freq;
+
+        const start = t + i * 0.07;
+        gain.gain.setValueAtTime(0.18, start);
+        gain.gain.exponentialRampToValueAtTime(0.01, start + 0.15);
+
+        osc.connect(gain);
+        gain.connect(this.bus('sfx'));
+
+        osc.start(start);
+        osc.stop(start + 0.15);
+    });
+  }
+
+  playShieldBreak() {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Glassy ping that wobbles down
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(2400, t);
+    osc.frequency.exponentialRampToValueAtTime(600, t + 0.35);
+
+    gain.gain.setValueAtTime(0.3, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.35);
+
+    osc.connect(gain);
+    gain.connect(this.bus('sfx'));
+
+    osc.start(t);
+    osc.stop(t + 0.35);
+  }
+
+  playStyle(big = false) {
+    if (!this.ctx || !this.masterGain) this.init();
+    if (!this.ctx || !this.masterGain) return;
+
+    const t = this.ctx.currentTime;
+    const dur = big ? 0.3 : 0.18;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Rising swish; barrel rolls sweep higher and longer
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(big ? 500 : 700, t);
+    osc.frequency.exponentialRampToValueAtTime(big ? 2400 : 1600, t + dur);
+
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + dur);
+
+    osc.connect(gain);
+    gain.connect(this.bus('sfx'));
+
+    osc.start(t);
+    osc.stop(t + dur);
+  }
+
   playDamage() {
     if (!this.ctx || !this.masterGain) this.init();
     if (!this.ctx || !this.masterGain) return;
 
     const t = this.ctx.currentTime;
+    this.duckMusic();
     
     // 1. Noise buffer for "crunch/static"
     const bufferSize = this.ctx.sampleRate * 0.3; // 0.3 seconds
@@ -140,10 +422,10 @@ export class AudioController {
     noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
 
     osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
+    oscGain.connect(this.bus('sfx'));
     
     noise.connect(noiseGain);
-    noiseGain.connect(this.masterGain);
+    noiseGain.connect(this.bus('sfx'));
 
     osc.start(t);
     osc.stop(t + 0.3);
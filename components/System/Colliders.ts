@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+export type Vec3 = [number, number, number];
+
+// Offsets are relative to the owner's position
+export interface AabbCollider {
+  shape: 'AABB';
+  offset: Vec3;
+  halfExtents: Vec3;
+}
+
+// Upright capsule: a vertical segment of 2 * halfHeight, rounded by radius
+export interface CapsuleCollider {
+  shape: 'CAPSULE';
+  offset: Vec3;
+  radius: number;
+  halfHeight: number;
+}
+
+export type Collider = AabbCollider | CapsuleCollider;
+
+// What touching an object does; the simulation decides the consequences.
+// PROJECTILE is the player's own fire: tested against destructible objects, never the player
+export type ColliderRole = 'HAZARD' | 'PICKUP' | 'TRIGGER' | 'PROJECTILE';
+
+export const aabb = (offset: Vec3, halfExtents: Vec3): AabbCollider => ({ shape: 'AABB', offset, halfExtents });
+export const capsule = (offset: Vec3, radius: number, halfHeight: number): CapsuleCollider => ({ shape: 'CAPSULE', offset, radius, halfHeight });
+
+// --- PLAYER ---
+
+const PLAYER_HALF_WIDTH = 0.45;
+const PLAYER_HALF_LENGTH = 0.9;
+export const PLAYER_HEIGHT = 1.2;
+export const SLIDE_HEIGHT = 0.5;
+
+export const getPlayerCollider = (sliding: boolean): AabbCollider => {
+  const height = sliding ? SLIDE_HEIGHT : PLAYER_HEIGHT;
+  return aabb([0, height / 2, 0], [PLAYER_HALF_WIDTH, height / 2, PLAYER_HALF_LENGTH]);
+};
+
+// --- OBJECTS ---
+
+// Each entity declares its own colliders (see components/Entities); these are the shared building blocks
+
+// Hazards are 0.9 wide and reach 1.1 either side of their z
+export const HAZARD_HALF_WIDTH = 0.45;
+export const HAZARD_HALF_DEPTH = 1.1;
+
+// Pickups are generous vertically so they can be grabbed from a jump
+export const PICKUP_COLLIDER = capsule([0, 0.6, 0], 0.45, 1.45);
+
+// --- SWEPT TEST ---
+
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+// Does the segment from start to end pass through the box centred on the origin? (slab test)
+const segmentHitsBox = (start: Vec3, end: Vec3, half: Vec3) => {
+  let tMin = 0;
+  let tMax = 1;
+  for (let axis = 0; axis < 3; axis++) {
+    const d = end[axis] - start[axis];
+    if (Math.abs(d) < 1e-9) {
+      if (Math.abs(start[axis]) >= half[axis]) return false;
+      continue;
+    }
+    let t0 = (-half[axis] - start[axis]) / d;
+    let t1 = (half[axis] - start[axis]) / d;
+    if (t0 > t1) [t0, t1] = [t1, t0];
+    tMin = Math.max(tMin, t0);
+    tMax = Math.min(tMax, t1);
+    if (tMin > tMax) return false;
+  }
+  return true;
+};
+
+// Distance between an upright capsule's axis (centred at `center`) and a box centred on the origin
+const capsuleBoxDistance = (center: Vec3, halfHeight: number, half: Vec3) => {
+  const dx = Math.max(Math.abs(center[0]) - half[0], 0);
+  const dz = Math.max(Math.abs(center[2]) - half[2], 0);
+  const dy = Math.max(Math.abs(center[1]) - halfHeight - half[1], 0);
+  return Math.hypot(dx, dy, dz);
+};
+
+/**
+ * Tests the player's box against an object's collider over one step, with both moving:
+ * the object along the track, the player between lanes and through a jump.
+ * Positions are [start, end] pairs for the step.
+ */
+export const sweepCollider = (
+  player: AabbCollider, playerFrom: Vec3, playerTo: Vec3,
+  collider: Collider, objectFrom: Vec3, objectTo: Vec3
+): boolean => {
+  // Work in the player box's frame, so only the relative motion matters
+  const relFrom = sub(add(objectFrom, collider.offset), add(playerFrom, player.offset));
+  const relTo = sub(add(objectTo, collider.offset), add(playerTo, player.offset));
+
+  if (collider.shape === 'AABB') {
+    // Minkowski sum: grow the player's box by the object's and sweep the object's centre through it
+    const half: Vec3 = [
+      player.halfExtents[0] + collider.halfExtents[0],
+      player.halfExtents[1] + collider.halfExtents[1],
+      player.halfExtents[2] + collider.halfExtents[2]
+    ];
+    return segmentHitsBox(relFrom, relTo, half);
+  }
+
+  // Capsules are sampled finely enough that the motion between samples is under their radius
+  const travel = Math.hypot(relTo[0] - relFrom[0], relTo[1] - relFrom[1], relTo[2] - relFrom[2]);
+  const samples = Math.max(1, Math.ceil(travel / (collider.radius * 0.5)));
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const point: Vec3 = [
+      relFrom[0] + (relTo[0] - relFrom[0]) * t,
+      relFrom[1] + (relTo[1] - relFrom[1]) * t,
+      relFrom[2] + (relTo[2] - relFrom[2]) * t
+    ];
+    if (capsuleBoxDistance(point, collider.halfHeight, player.halfExtents) < collider.radius) return true;
+  }
+  return false;
+};
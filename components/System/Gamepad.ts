@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { getButtonActions, performAction } from './Input';
+
+type Direction = 'LEFT' | 'RIGHT' | 'UP' | 'DOWN';
+
+type UiCommand = Direction | 'CONFIRM' | 'BACK';
+
+// Menus always use the standard layout (https://w3c.github.io/gamepad/#remapping),
+// gameplay uses the player's bindings from settings
+const UI_BUTTONS: Record<number, UiCommand> = {
+  0: 'CONFIRM', // A / Cross
+  1: 'BACK',    // B / Circle
+  9: 'CONFIRM', // Start
+  12: 'UP',
+  13: 'DOWN',
+  14: 'LEFT',
+  15: 'RIGHT'
+};
+
+// Stick hysteresis: a direction engages past PRESS and only lets go below RELEASE,
+// so a stick resting near the threshold does not chatter
+const AXIS_PRESS = 0.5;
+const AXIS_RELEASE = 0.3;
+const BUTTON_THRESHOLD = 0.5; // Analog triggers/buttons report 0..1
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])';
+const NAV_CLASS = 'gamepad-nav'; // Shows focus rings while the pad is driving the UI
+
+// --- FOCUS NAVIGATION ---
+
+const center = (rect: DOMRect) => ({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+
+// Visible and not covered by an overlay (e.g. the menu underneath the records screen)
+const isReachable = (el: HTMLElement) => {
+  const rect = el.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return false;
+  const { x, y } = center(rect);
+  const hit = document.elementFromPoint(x, y);
+  return hit !== null && (el === hit || el.contains(hit));
+};
+
+const getFocusables = () =>
+  Array.from(document.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(isReachable);
+
+// Nearest reachable element in a direction, favouring ones lined up with the current focus
+const findNeighbour = (from: HTMLElement, direction: Direction, candidates: HTMLElement[]) => {
+  const origin = center(from.getBoundingClientRect());
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+
+  for (const el of candidates) {
+    if (el === from) continue;
+    const target = center(el.getBoundingClientRect());
+    const dx = target.x - origin.x;
+    const dy = target.y - origin.y;
+    const primary = direction === 'LEFT' ? -dx : direction === 'RIGHT' ? dx : direction === 'UP' ? -dy : dy;
+    const secondary = direction === 'LEFT' || direction === 'RIGHT' ? Math.abs(dy) : Math.abs(dx);
+    if (primary <= 1) continue;
+
+    const score = primary + secondary * 2;
+    if (score < bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const moveFocus = (direction: Direction) => {
+  const candidates = getFocusables();
+  if (candidates.length === 0) return;
+
+  const current = document.activeElement instanceof HTMLElement && candidates.includes(document.activeElement)
+    ? document.activeElement
+    : null;
+  const next = current ? findNeighbour(current, direction, candidates) : candidates[0];
+  next?.focus();
+};
+
+const activateFocus = () => {
+  const current = document.activeElement;
+  if (current instanceof HTMLElement && current.matches(FOCUSABLE) && isReachable(current)) {
+    current.click();
+  } else {
+    moveFocus('DOWN');
+  }
+};
+
+interface PadSnapshot {
+  buttons: Set<number>;
+  stick: Set<Direction>;
+}
+
+type ButtonCapture = (button: number) => void;
+
+/**
+ * Polls the Gamepad API once per animation frame while any pad is connected.
+ * Presses are edge-triggered: holding a button or stick fires once.
+ */
+export class GamepadController {
+  connected = 0;
+
+  private held: PadSnapshot = { buttons: new Set(), stick: new Set() };
+  private frame: number | null = null;
+  private capture: ButtonCapture | null = null;
+
+  constructor() {
+    // Each new screen starts with its first control focused, so the pad works straight away
+    useStore.subscribe((state, prev) => {
+      if (this.connected === 0 || state.status === prev.status || state.status === GameStatus.PLAYING) return;
+      requestAnimationFrame(() => {
+        (document.activeElement as HTMLElement | null)?.blur();
+        moveFocus('DOWN');
+      });
+    });
+  }
+
+  attach() {
+    const onConnect = () => this.refresh();
+    const onPointer = () => document.body.classList.remove(NAV_CLASS);
+
+    window.addEventListener('gamepadconnected', onConnect);
+    window.addEventListener('gamepaddisconnected', onConnect);
+    window.addEventListener('pointerdown', onPointer);
+    this.refresh();
+
+    return () => {
+      window.removeEventListener('gamepadconnected', onConnect);
+      window.removeEventListener('gamepaddisconnected', onConnect);
+      window.removeEventListener('pointerdown', onPointer);
+      this.stop();
+    };
+  }
+
+  private getPads() {
+    return (navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  // Only poll while something is plugged in
+  private refresh() {
+    this.connected = this.getPads().length;
+    if (this.connected > 0 && this.frame === null) {
+      const loop = () => {
+        this.poll();
+        this.frame = requestAnimationFrame(loop);
+      };
+      this.frame = requestAnimationFrame(loop);
+    } else if (this.connected === 0) {
+      this.stop();
+    }
+  }
+
+  private stop() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.held = { buttons: new Set(), stick: new Set() };
+  }
+
+  // The next button press goes to the callback instead of the game (for rebinding)
+  captureNextButton(callback: ButtonCapture | null) {
+    this.capture = callback;
+  }
+
+  private read(pads: Gamepad[]): PadSnapshot {
+    const snapshot: PadSnapshot = { buttons: new Set(), stick: new Set() };
+
+    for (const pad of pads) {
+      pad.buttons.forEach((button, i) => {
+        if (button.pressed || button.value > BUTTON_THRESHOLD) snapshot.buttons.add(i);
+      });
+
+      const [x = 0, y = 0] = pad.axes;
+      const axisDown = (value: number, dir: Direction) =>
+        Math.abs(value) > (this.held.stick.has(dir) ? AXIS_RELEASE : AXIS_PRESS);
+      if (x < 0 && axisDown(x, 'LEFT')) snapshot.stick.add('LEFT');
+      if (x > 0 && axisDown(x, 'RIGHT')) snapshot.stick.add('RIGHT');
+      if (y < 0 && axisDown(y, 'UP')) snapshot.stick.add('UP');
+      if (y > 0 && axisDown(y, 'DOWN')) snapshot.stick.add('DOWN');
+    }
+    return snapshot;
+  }
+
+  poll() {
+    const snapshot = this.read(this.getPads());
+    const pressedButtons = [...snapshot.buttons].filter(button => !this.held.buttons.has(button));
+    const pressedStick = [...snapshot.stick].filter(dir => !this.held.stick.has(dir));
+    this.held = snapshot;
+
+    if (this.capture && pressedButtons.length > 0) {
+      const capture = this.capture;
+      this.capture = null;
+      capture(pressedButtons[0]);
+      return;
+    }
+
+    const isPlaying = useStore.getState().status === GameStatus.PLAYING;
+    pressedButtons.forEach(button => isPlaying ? this.pressInGame(button) : this.pressInMenu(button));
+    pressedStick.forEach(dir => {
+      if (isPlaying) {
+        if (dir === 'LEFT') performAction('MOVE_LEFT');
+        if (dir === 'RIGHT') performAction('MOVE_RIGHT');
+        if (dir === 'DOWN') performAction('SLIDE');
+      } else {
+        this.navigate(dir);
+      }
+    });
+  }
+
+  private pressInGame(button: number) {
+    getButtonActions(button).forEach(performAction);
+  }
+
+  private pressInMenu(button: number) {
+    // Pause works on both sides, so it is never also a menu button
+    const actions = getButtonActions(button);
+    if (actions.includes('PAUSE')) {
+      performAction('PAUSE');
+      return;
+    }
+
+    const command = UI_BUTTONS[button];
+    if (command) this.navigate(command);
+  }
+
+  // Everywhere outside gameplay the pad drives the HTML UI
+  private navigate(command: UiCommand) {
+    document.body.classList.add(NAV_CLASS);
+    if (command === 'CONFIRM') activateFocus();
+    else if (command === 'BACK') (document.activeElement as HTMLElement | null)?.blur();
+    else moveFocus(command);
+  }
+}
+
+export const gamepad = new GamepadController();
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useStore } from '../../store';
+import { Difficulty, GameStatus, Replay } from '../../types';
+import { ReplayPlayer, encodeReplay, decodeReplay } from './Replay';
+import { simulation } from './Simulation';
+import { readJSON, writeJSON } from './Storage';
+
+const STORAGE_PREFIX = 'time-tunnel:ghost';
+
+interface GhostRecord {
+  score: number;
+  replay: string; // Encoded replay
+}
+
+// Custom words change the track, so they get ghosts of their own
+const ghostKey = (difficulty: Difficulty, seed: number, targetWord?: string) =>
+  `${STORAGE_PREFIX}:${difficulty}:${seed}${targetWord ? `:${encodeURIComponent(targetWord)}` : ''}`;
+const bestSeedKey = (difficulty: Difficulty) => `${STORAGE_PREFIX}-best:${difficulty}`;
+
+const readRecord = (key: string) => readJSON<GhostRecord | null>(key, null);
+
+export const loadGhost = (difficulty: Difficulty, seed: number, targetWord?: string): { score: number; replay: Replay } | null => {
+  const record = readRecord(ghostKey(difficulty, seed, targetWord));
+  if (!record) return null;
+  try {
+    return { score: record.score, replay: decodeReplay(record.replay) };
+  } catch {
+    return null;
+  }
+};
+
+// Seed of the highest scoring ghost on a difficulty, across all seeds
+export const getBestGhostSeed = (difficulty: Difficulty) => readJSON<number | null>(bestSeedKey(difficulty), null);
+
+// Keeps a run as the ghost for its seed + difficulty (+ word) if it beats the stored one
+export const saveGhostIfBest = (replay: Replay, score: number): boolean => {
+  const key = ghostKey(replay.difficulty, replay.seed, replay.targetWord);
+  const existing = readRecord(key);
+  if (existing && existing.score >= score) return false;
+
+  // Ghosts are a nice-to-have, so a failed write (storage full) is ignored
+  writeJSON(key, { score, replay: encodeReplay(replay) });
+
+  // The menu's best-ghost race always uses the levels' own words
+  if (replay.targetWord) return true;
+
+  const bestSeed = getBestGhostSeed(replay.difficulty);
+  const best = bestSeed === null ? null : readRecord(ghostKey(replay.difficulty, bestSeed));
+  if (!best || best.score <= score) {
+    writeJSON(bestSeedKey(replay.difficulty), replay.seed);
+  }
+  return true;
+};
+
+/**
+ * Races the stored best run for the current seed + difficulty.
+ * The ghost is a muted replay kept in lockstep with the live simulation's tick.
+ */
+export class GhostRacer {
+  readonly playback = new ReplayPlayer();
+  active = false;
+  bestScore = 0;
+
+  private pendingSave = false;
+
+  constructor() {
+    this.playback.simulation.muted = true;
+
+    useStore.subscribe((state, prev) => {
+      if (state.runId !== prev.runId) {
+        this.start(state.difficulty, state.seed, state.customWord ?? undefined);
+      }
+
+      // The run ends mid-step, so save on the next sync once the step has completed
+      const isRunOver = state.status === GameStatus.GAME_OVER || state.status === GameStatus.VICTORY;
+      if (isRunOver && prev.status !== state.status) {
+        this.pendingSave = true;
+      }
+    });
+  }
+
+  start(difficulty: Difficulty, seed: number, targetWord?: string) {
+    const ghost = loadGhost(difficulty, seed, targetWord);
+    this.active = ghost !== null;
+    this.bestScore = ghost?.score ?? 0;
+    if (ghost) this.playback.load(ghost.replay);
+  }
+
+  // Called once per frame after the live simulation has advanced
+  sync() {
+    if (this.pendingSave) {
+      this.pendingSave = false;
+      saveGhostIfBest(simulation.getReplay(), useStore.getState().score);
+    }
+    if (this.active) this.playback.advanceTo(simulation.tick);
+  }
+
+  // Positive when the live run is ahead of the ghost
+  get delta() {
+    return simulation.distance - this.playback.simulation.distance;
+  }
+}
+
+export const ghostRacer = new GhostRacer();
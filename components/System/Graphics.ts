@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { GEMINI_COLORS, ObstacleKind } from '../../types';
+import { useSettings } from '../../settings';
+
+export interface Palette {
+  letters: string[]; // Target word slots in order; longer words spread hues (standard) or cycle (colour-blind)
+  cycleLetters: boolean;
+  flower: string;
+  monster: string;
+  missile: string;
+  reticle: string;
+  obstacles: Record<ObstacleKind, string>;
+}
+
+export const PALETTES: Record<'STANDARD' | 'COLOR_BLIND', Palette> = {
+  STANDARD: {
+    letters: GEMINI_COLORS,
+    cycleLetters: false,
+    flower: '#ff0000',
+    monster: '#aa00ff',
+    missile: '#ff00ff',
+    reticle: '#ff2200',
+    obstacles: { BARRIER: '#ffaa00', BEAM: '#ff3355', WALL: '#8844ff' }
+  },
+  // Okabe-Ito colours: no red/green pairs, and hazards stay apart from the cyan pickups
+  COLOR_BLIND: {
+    letters: ['#56b4e9', '#d55e00', '#f0e442', '#0072b2', '#009e73', '#cc79a7', '#e69f00'],
+    cycleLetters: true,
+    flower: '#e69f00',
+    monster: '#cc79a7',
+    missile: '#d55e00',
+    reticle: '#f0e442',
+    obstacles: { BARRIER: '#e69f00', BEAM: '#d55e00', WALL: '#cc79a7' }
+  }
+};
+
+const paletteFor = (colorBlind: boolean) => PALETTES[colorBlind ? 'COLOR_BLIND' : 'STANDARD'];
+
+export const getPalette = () => paletteFor(useSettings.getState().graphics.colorBlind);
+
+export const usePalette = () => paletteFor(useSettings(state => state.graphics.colorBlind));
+
+type Tintable = THREE.Material & { color: THREE.Color; emissive?: THREE.Color };
+
+// Keeps a shared material in the active palette: tinted now, and again whenever the setting flips
+export const tintWithPalette = (material: Tintable, pick: (palette: Palette) => string, tintEmissive = false) => {
+  const apply = () => {
+    material.color.set(pick(getPalette()));
+    if (tintEmissive) material.emissive?.set(pick(getPalette()));
+  };
+  apply();
+  useSettings.subscribe((state, prev) => {
+    if (state.graphics.colorBlind !== prev.graphics.colorBlind) apply();
+  });
+};
+
+// --- MOTION ---
+
+const REDUCED_MOTION_SCALE = 0.35;
+
+// Multiplier for purely decorative motion (tunnel, stars, camera easing); gameplay speed never changes
+export const useMotionScale = () => useSettings(state => state.graphics.reducedMotion) ? REDUCED_MOTION_SCALE : 1;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { InputAction, INPUT_ACTIONS, useSettings } from '../../settings';
+import { SimulationInput, simulation } from './Simulation';
+
+// Gameplay actions map straight onto simulation inputs
+const SIMULATION_INPUTS: Partial<Record<InputAction, SimulationInput>> = {
+  MOVE_LEFT: 'LEFT',
+  MOVE_RIGHT: 'RIGHT',
+  JUMP: 'JUMP',
+  SLIDE: 'SLIDE',
+  ABILITY: 'ABILITY',
+  FIRE: 'FIRE'
+};
+
+type ActionHandler = (action: InputAction) => void;
+
+const handlers = new Set<ActionHandler>();
+
+// For actions that live outside the simulation (e.g. PAUSE)
+export const onAction = (handler: ActionHandler) => {
+  handlers.add(handler);
+  return () => { handlers.delete(handler); };
+};
+
+// Single entry point for keyboard, touch and gamepad
+export const performAction = (action: InputAction) => {
+  const input = SIMULATION_INPUTS[action];
+  if (input && useStore.getState().status === GameStatus.PLAYING) {
+    simulation.input(input);
+  }
+  handlers.forEach(handler => handler(action));
+};
+
+export const getKeyAction = (code: string): InputAction | null =>
+  INPUT_ACTIONS.find(action => useSettings.getState().controls.keys[action].includes(code)) ?? null;
+
+export const getButtonActions = (button: number): InputAction[] =>
+  INPUT_ACTIONS.filter(action => useSettings.getState().controls.buttons[action].includes(button));
+
+// --- DISPLAY NAMES ---
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: 'SPACE',
+  Enter: 'ENTER',
+  Escape: 'ESC',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL'
+};
+
+export const formatKey = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^Key|^Digit/, '').toUpperCase();
+
+const BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y',
+  4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'SELECT', 9: 'START', 10: 'L3', 11: 'R3',
+  12: 'D-UP', 13: 'D-DOWN', 14: 'D-LEFT', 15: 'D-RIGHT'
+};
+
+export const formatButton = (button: number) => BUTTON_NAMES[button] ?? `BTN ${button}`;
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  MOVE_LEFT: 'MOVE LEFT',
+  MOVE_RIGHT: 'MOVE RIGHT',
+  JUMP: 'JUMP',
+  SLIDE: 'SLIDE',
+  ABILITY: 'ABILITY',
+  FIRE: 'FIRE',
+  PAUSE: 'PAUSE'
+};
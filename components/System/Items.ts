@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ArrowUpCircle, Activity, PlusCircle, Shield, Crosshair, Magnet, Gem } from 'lucide-react';
+import type { GameState } from '../../store';
+import { Inventory, ItemId, ItemTrigger, Modifiers, ObjectType, OwnedItem, ShopItem } from '../../types';
+import { POWER_UPS, POWER_UP_KINDS } from './PowerUps';
+
+/**
+ * Every item the shop can sell. Purchases, triggers and timers are handled generically by the store;
+ * what an item actually does comes from its onBuy and modify hooks.
+ */
+export const ITEM_REGISTRY: Record<ItemId, ShopItem> = {
+  DOUBLE_JUMP: {
+    id: 'DOUBLE_JUMP',
+    name: 'TURBO BOOST',
+    description: 'Double Jump capability to clear high threats.',
+    icon: ArrowUpCircle,
+    cost: [1000],
+    modify: (modifiers) => { modifiers.maxJumps = 2; }
+  },
+  MAX_LIFE: {
+    id: 'MAX_LIFE',
+    name: 'HULL REINFORCE',
+    description: 'Permanently adds a shield slot and repairs hull.',
+    icon: Activity,
+    cost: [1500],
+    stackable: true,
+    onBuy: ({ lives, maxLives }) => ({ maxLives: maxLives + 1, lives: lives + 1 })
+  },
+  HEAL: {
+    id: 'HEAL',
+    name: 'REPAIR NANOBOTS',
+    description: 'Restores 1 Shield point instantly.',
+    icon: PlusCircle,
+    cost: [1000],
+    stackable: true,
+    onBuy: ({ lives, maxLives }) => ({ lives: Math.min(lives + 1, maxLives) })
+  },
+  IMMORTAL: {
+    id: 'IMMORTAL',
+    name: 'PHASE SHIFT',
+    description: 'Ability: Become intangible for 5s (Press Enter).',
+    icon: Shield,
+    cost: [3000],
+    activation: { trigger: 'ABILITY', duration: 5 },
+    modify: (modifiers, item) => { if (item.activeTime > 0) modifiers.invulnerable = true; }
+  },
+  BLASTER: {
+    id: 'BLASTER',
+    name: 'PULSE BLASTER',
+    description: 'Weapon: Shoot down monsters and missiles (Press F).',
+    icon: Crosshair,
+    cost: [2500],
+    activation: {
+      trigger: 'FIRE',
+      cooldown: 0.4,
+      energy: { max: 100, cost: 25, recharge: 12 },
+      spawns: ObjectType.PROJECTILE
+    }
+  },
+  MAGNET: {
+    id: 'MAGNET',
+    name: 'GEM MAGNET',
+    description: 'Pulls nearby gems into your lane. Upgrades reach further.',
+    icon: Magnet,
+    cost: [1200, 2000, 3000],
+    modify: (modifiers, item) => { modifiers.magnetRange = 10 + 8 * (item.tier - 1); }
+  },
+  MULTIPLIER: {
+    id: 'MULTIPLIER',
+    name: 'CREDIT AMPLIFIER',
+    description: 'Gems and kills score +50% per tier.',
+    icon: Gem,
+    cost: [2000, 4000],
+    modify: (modifiers, item) => { modifiers.scoreMultiplier += 0.5 * item.tier; }
+  }
+};
+
+export const ITEM_IDS = Object.keys(ITEM_REGISTRY) as ItemId[];
+
+export const isItemId = (id: string): id is ItemId => id in ITEM_REGISTRY;
+
+const BASE_MODIFIERS: Modifiers = {
+  maxJumps: 1,
+  invulnerable: false,
+  magnetRange: 0,
+  scoreMultiplier: 1,
+  shielded: false,
+  speedScale: 1
+};
+
+// Runs every owned item's modify hook over the base values in registry order, then every running power-up's
+export const getModifiers = ({ inventory, powerUps }: Pick<GameState, 'inventory' | 'powerUps'>): Modifiers => {
+  const modifiers = { ...BASE_MODIFIERS };
+  for (const id of ITEM_IDS) {
+    const item = inventory[id];
+    if (item) ITEM_REGISTRY[id].modify?.(modifiers, item);
+  }
+  for (const kind of POWER_UP_KINDS) {
+    if (powerUps[kind]) POWER_UPS[kind].modify(modifiers);
+  }
+  return modifiers;
+};
+
+// Price of the next purchase, or null once the item is sold out
+export const getItemCost = (id: ItemId, inventory: Inventory) => {
+  const { cost, stackable } = ITEM_REGISTRY[id];
+  const tier = inventory[id]?.tier ?? 0;
+  if (tier < cost.length) return cost[tier];
+  return stackable ? cost[cost.length - 1] : null;
+};
+
+export const createOwnedItem = (id: ItemId): OwnedItem => ({
+  tier: 0,
+  activeTime: 0,
+  cooldown: 0,
+  energy: ITEM_REGISTRY[id].activation?.energy?.max ?? 0
+});
+
+// The owned item bound to an input; the first in registry order wins if several are
+export const getTriggeredItem = (inventory: Inventory, trigger: ItemTrigger) =>
+  ITEM_IDS.find(id => inventory[id] && ITEM_REGISTRY[id].activation?.trigger === trigger) ?? null;
+
+export const isItemReady = (id: ItemId, item: OwnedItem) => {
+  const activation = ITEM_REGISTRY[id].activation;
+  if (!activation || item.activeTime > 0 || item.cooldown > 0) return false;
+  return !activation.energy || item.energy >= activation.energy.cost;
+};
+
+// Counts down effects and cooldowns and recharges energy; returns the same item if nothing changed
+export const tickOwnedItem = (id: ItemId, item: OwnedItem, delta: number): OwnedItem => {
+  const energy = ITEM_REGISTRY[id].activation?.energy;
+  const recharging = !!energy && item.energy < energy.max;
+  if (item.activeTime <= 0 && item.cooldown <= 0 && !recharging) return item;
+
+  return {
+    ...item,
+    activeTime: Math.max(item.activeTime - delta, 0),
+    cooldown: Math.max(item.cooldown - delta, 0),
+    energy: energy ? Math.min(item.energy + energy.recharge * delta, energy.max) : item.energy
+  };
+};
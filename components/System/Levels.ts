@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import levelData from '../../data/levels.json';
+import { AiProfile, BossDefinition, BossPattern, LetterMode, LevelDefinition, LevelTheme, ObjectType, ObstacleKind } from '../../types';
+import { MAX_TARGET_LETTERS, normalizeTargetWord } from './TargetWord';
+import { ENTITY_REGISTRY } from '../Entities';
+
+// Types the spawner knows how to place on the track
+export const SPAWNABLE_TYPES: ObjectType[] = Object.values(ENTITY_REGISTRY).filter(entity => entity.weighted).map(entity => entity.type);
+
+export const OBSTACLE_KINDS: ObstacleKind[] = ['BARRIER', 'BEAM', 'WALL'];
+export const BOSS_PATTERNS: BossPattern[] = ['SWEEP', 'SPREAD', 'AIMED'];
+
+const THEME_COLORS = ['tunnel', 'lanes', 'stars', 'light', 'ambient', 'fog'] as const;
+const LETTER_MODES: LetterMode[] = ['FREE', 'ORDERED'];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export class LevelDefinitionError extends Error {
+  constructor(path: string, message: string) {
+    super(`Invalid level definition at ${path}: ${message}`);
+    this.name = 'LevelDefinitionError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectNumber = (value: unknown, path: string, min: number, max = Infinity): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new LevelDefinitionError(path, `expected a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+// Lanes are laid out around a centre lane, so the count has to be odd and whole
+const expectLaneCount = (value: unknown, path: string): number => {
+  const count = expectNumber(value, path, 1, 9);
+  if (!Number.isInteger(count) || count % 2 !== 1) {
+    throw new LevelDefinitionError(path, 'expected an odd whole number of lanes');
+  }
+  return count;
+};
+
+const expectString = (value: unknown, path: string, pattern: RegExp): string => {
+  if (typeof value !== 'string' || !pattern.test(value)) {
+    throw new LevelDefinitionError(path, `expected a string matching ${pattern}`);
+  }
+  return value;
+};
+
+const expectWord = (value: unknown, path: string): string => {
+  const word = typeof value === 'string' ? normalizeTargetWord(value) : null;
+  if (word === null) {
+    throw new LevelDefinitionError(path, `expected a word of 1 to ${MAX_TARGET_LETTERS} letters`);
+  }
+  return word;
+};
+
+const expectLetterMode = (value: unknown, path: string): LetterMode => {
+  if (!LETTER_MODES.includes(value as LetterMode)) {
+    throw new LevelDefinitionError(path, `expected one of ${LETTER_MODES.join(', ')}`);
+  }
+  return value as LetterMode;
+};
+
+const expectObstacleKinds = (value: unknown, path: string): ObstacleKind[] => {
+  if (!Array.isArray(value)) throw new LevelDefinitionError(path, 'expected an array');
+  value.forEach((kind, i) => {
+    if (!OBSTACLE_KINDS.includes(kind)) {
+      throw new LevelDefinitionError(`${path}[${i}]`, `expected one of ${OBSTACLE_KINDS.join(', ')}`);
+    }
+  });
+  return value as ObstacleKind[];
+};
+
+const expectTypeMap = (value: unknown, path: string, min: number): Partial<Record<ObjectType, number>> => {
+  if (!isObject(value)) throw new LevelDefinitionError(path, 'expected an object');
+
+  const result: Partial<Record<ObjectType, number>> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!SPAWNABLE_TYPES.includes(key as ObjectType)) {
+      throw new LevelDefinitionError(`${path}.${key}`, `unknown type, expected one of ${SPAWNABLE_TYPES.join(', ')}`);
+    }
+    result[key as ObjectType] = expectNumber(entry, `${path}.${key}`, min);
+  }
+  return result;
+};
+
+const parseAiProfile = (raw: unknown, path: string): AiProfile => {
+  if (!isObject(raw)) throw new LevelDefinitionError(path, 'expected an object');
+  const section = (key: keyof AiProfile) => {
+    const value = raw[key];
+    if (!isObject(value)) throw new LevelDefinitionError(`${path}.${key}`, 'expected an object');
+    return value;
+  };
+  const monster = section('monster');
+  const missile = section('missile');
+  const flower = section('flower');
+
+  return {
+    monster: {
+      strafeChance: expectNumber(monster.strafeChance, `${path}.monster.strafeChance`, 0, 1),
+      strafeSpeed: expectNumber(monster.strafeSpeed, `${path}.monster.strafeSpeed`, 0),
+      fireRange: expectNumber(monster.fireRange, `${path}.monster.fireRange`, 0),
+    },
+    missile: {
+      homingChance: expectNumber(missile.homingChance, `${path}.missile.homingChance`, 0, 1),
+      lockOnTime: expectNumber(missile.lockOnTime, `${path}.missile.lockOnTime`, 0),
+      turnRate: expectNumber(missile.turnRate, `${path}.missile.turnRate`, 0),
+    },
+    flower: {
+      lungeChance: expectNumber(flower.lungeChance, `${path}.flower.lungeChance`, 0, 1),
+      lungeRange: expectNumber(flower.lungeRange, `${path}.flower.lungeRange`, 0),
+      lungeSpeed: expectNumber(flower.lungeSpeed, `${path}.flower.lungeSpeed`, 0),
+    }
+  };
+};
+
+const parseBoss = (raw: unknown, path: string): BossDefinition => {
+  if (!isObject(raw)) throw new LevelDefinitionError(path, 'expected an object');
+
+  const { patterns } = raw;
+  if (!Array.isArray(patterns) || patterns.length === 0) {
+    throw new LevelDefinitionError(`${path}.patterns`, 'expected a non-empty array');
+  }
+  patterns.forEach((pattern, i) => {
+    if (!BOSS_PATTERNS.includes(pattern)) {
+      throw new LevelDefinitionError(`${path}.patterns[${i}]`, `expected one of ${BOSS_PATTERNS.join(', ')}`);
+    }
+  });
+
+  return {
+    health: expectNumber(raw.health, `${path}.health`, 1),
+    volleyInterval: expectNumber(raw.volleyInterval, `${path}.volleyInterval`, 0.5),
+    patterns: patterns as BossPattern[],
+    chargeInterval: expectNumber(raw.chargeInterval, `${path}.chargeInterval`, 1),
+    chargeDamage: expectNumber(raw.chargeDamage, `${path}.chargeDamage`, 0),
+    reflectDamage: expectNumber(raw.reflectDamage, `${path}.reflectDamage`, 0),
+  };
+};
+
+const parseLevel = (raw: unknown, path: string): LevelDefinition => {
+  if (!isObject(raw)) throw new LevelDefinitionError(path, 'expected an object');
+  if (!isObject(raw.speed)) throw new LevelDefinitionError(`${path}.speed`, 'expected an object');
+  if (!isObject(raw.theme)) throw new LevelDefinitionError(`${path}.theme`, 'expected an object');
+
+  const spawnWeights = expectTypeMap(raw.spawnWeights, `${path}.spawnWeights`, 0);
+  if (!Object.values(spawnWeights).some(weight => weight! > 0)) {
+    throw new LevelDefinitionError(`${path}.spawnWeights`, 'at least one weight must be positive');
+  }
+
+  const obstacleKinds = expectObstacleKinds(raw.obstacleKinds, `${path}.obstacleKinds`);
+  if ((spawnWeights[ObjectType.OBSTACLE] ?? 0) > 0 && obstacleKinds.length === 0) {
+    throw new LevelDefinitionError(`${path}.obstacleKinds`, 'obstacles can spawn, so at least one kind is needed');
+  }
+
+  const theme = {} as LevelTheme;
+  for (const key of THEME_COLORS) {
+    theme[key] = expectString(raw.theme[key], `${path}.theme.${key}`, COLOR_PATTERN);
+  }
+  theme.fogNear = expectNumber(raw.theme.fogNear, `${path}.theme.fogNear`, 0);
+  theme.fogFar = expectNumber(raw.theme.fogFar, `${path}.theme.fogFar`, theme.fogNear);
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : path,
+    targetWord: expectWord(raw.targetWord, `${path}.targetWord`),
+    laneCount: expectLaneCount(raw.laneCount, `${path}.laneCount`),
+    speed: {
+      boost: expectNumber(raw.speed.boost, `${path}.speed.boost`, 0),
+      letterBoost: expectNumber(raw.speed.letterBoost, `${path}.speed.letterBoost`, 0, 1),
+    },
+    timeBonus: expectNumber(raw.timeBonus, `${path}.timeBonus`, 0),
+    letterTimeBonus: expectNumber(raw.letterTimeBonus, `${path}.letterTimeBonus`, 0),
+    letterMode: expectLetterMode(raw.letterMode, `${path}.letterMode`),
+    wrongLetterPenalty: expectNumber(raw.wrongLetterPenalty, `${path}.wrongLetterPenalty`, 0),
+    letterInterval: expectNumber(raw.letterInterval, `${path}.letterInterval`, 1),
+    spawnChance: expectNumber(raw.spawnChance, `${path}.spawnChance`, 0, 1),
+    pairChance: expectNumber(raw.pairChance, `${path}.pairChance`, 0, 1),
+    spawnWeights,
+    minSpeed: raw.minSpeed === undefined ? undefined : expectTypeMap(raw.minSpeed, `${path}.minSpeed`, 0),
+    obstacleKinds,
+    ai: parseAiProfile(raw.ai, `${path}.ai`),
+    boss: raw.boss === undefined ? undefined : parseBoss(raw.boss, `${path}.boss`),
+    theme
+  };
+};
+
+// Throws LevelDefinitionError with the offending path, so bad data fails at load rather than mid-run
+export const parseLevelDefinitions = (raw: unknown): LevelDefinition[] => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new LevelDefinitionError('levels', 'expected a non-empty array');
+  }
+  return raw.map((level, i) => parseLevel(level, `levels[${i}]`));
+};
+
+export const LEVELS = parseLevelDefinitions(levelData);
+export const MAX_LEVEL = LEVELS.length;
+
+// Levels are 1-based, like the store's level counter
+export const getLevelDefinition = (level: number): LevelDefinition =>
+  LEVELS[Math.min(Math.max(level, 1), MAX_LEVEL) - 1];
+
+// Harder difficulties make enemies more likely to use their behaviours, faster, and quicker to lock on
+export const scaleAiProfile = ({ monster, missile, flower }: AiProfile, aggression: number): AiProfile => ({
+  monster: {
+    ...monster,
+    strafeChance: Math.min(monster.strafeChance * aggression, 1),
+    strafeSpeed: monster.strafeSpeed * aggression,
+  },
+  missile: {
+    ...missile,
+    homingChance: Math.min(missile.homingChance * aggression, 1),
+    lockOnTime: missile.lockOnTime / aggression,
+    turnRate: missile.turnRate * aggression,
+  },
+  flower: {
+    ...flower,
+    lungeChance: Math.min(flower.lungeChance * aggression, 1),
+    lungeSpeed: flower.lungeSpeed * aggression,
+  }
+});
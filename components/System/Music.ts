@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameState, useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { audio } from './Audio';
+import { getActiveSimulation } from './Replay';
+
+type MusicLayer = 'PAD' | 'BASS' | 'DRUMS' | 'ARP' | 'LEAD' | 'TENSION';
+
+interface MusicTheme {
+  bpm: number;
+  root: number;       // MIDI note the bass sits on
+  chords: number[][]; // Semitones above the root, one chord per bar
+  layers: MusicLayer[];
+  adaptive?: boolean; // Tempo follows speed and layers build with the word (the run theme)
+}
+
+const THEMES = {
+  // A minor: i - VI - III - VII
+  RUN: { bpm: 110, root: 45, chords: [[0, 3, 7], [-4, 0, 3], [3, 7, 10], [-2, 2, 5]], layers: ['PAD', 'BASS'], adaptive: true },
+  // C major, laid back: I - vi - IV - V
+  SHOP: { bpm: 88, root: 48, chords: [[0, 4, 7], [-3, 0, 4], [-7, -3, 0], [-5, -1, 2]], layers: ['PAD', 'BASS', 'ARP'] },
+  // A minor, falling: i - VII - VI - V
+  GAME_OVER: { bpm: 66, root: 45, chords: [[0, 3, 7], [-2, 2, 5], [-4, 0, 3], [-5, -1, 2]], layers: ['PAD', 'BASS'] },
+  // A major, lifted: I - V - vi - IV
+  VICTORY: { bpm: 120, root: 45, chords: [[0, 4, 7], [-5, -1, 2], [-3, 0, 4], [-7, -3, 0]], layers: ['PAD', 'BASS', 'DRUMS', 'ARP', 'LEAD'] }
+} satisfies Record<string, MusicTheme>;
+
+const STATUS_THEMES: Partial<Record<GameStatus, MusicTheme>> = {
+  [GameStatus.PLAYING]: THEMES.RUN,
+  [GameStatus.PAUSED]: THEMES.RUN, // Keeps playing under the pause menu rather than restarting on resume
+  [GameStatus.REPLAY]: THEMES.RUN,
+  [GameStatus.SHOP]: THEMES.SHOP,
+  [GameStatus.GAME_OVER]: THEMES.GAME_OVER,
+  [GameStatus.VICTORY]: THEMES.VICTORY
+};
+
+const STEPS_PER_BAR = 16;      // Sixteenth notes
+const LOOKAHEAD = 0.12;        // Seconds of notes scheduled ahead of the audio clock
+const SCHEDULE_INTERVAL = 25;  // ms between scheduler wake-ups; must stay well under the lookahead
+const CROSSFADE = 0.6;         // Seconds for one theme to hand over to the next
+const MAX_TEMPO_BOOST = 30;    // Extra bpm at full intensity
+const TENSION_TIME = 10;       // Seconds left on the clock when the tension layer comes in
+
+const midiToHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// 0 at the slowest starting speed, 1 once the run is going flat out
+const getIntensity = ({ speed }: GameState) => Math.min(Math.max((speed - 20) / 60, 0), 1);
+
+// The run theme builds up as the word fills in, and turns urgent when time is short
+const getLayers = (theme: MusicTheme, state: GameState) => {
+  const layers = new Set(theme.layers);
+  if (!theme.adaptive) return layers;
+
+  const progress = state.targetLetters.length > 0 ? state.collectedLetters.length / state.targetLetters.length : 0;
+  if (state.collectedLetters.length > 0) layers.add('DRUMS');
+  if (progress >= 1 / 3) layers.add('ARP');
+  if (progress >= 2 / 3) layers.add('LEAD');
+  if (state.timeLeft < TENSION_TIME) layers.add('TENSION');
+  return layers;
+};
+
+/**
+ * Generative soundtrack on the music bus. A short timer wakes up often and books every sixteenth
+ * note that falls inside the lookahead window on the audio clock, so timing stays tight even when
+ * the main thread stutters. Each theme plays through its own gain so changes can crossfade.
+ */
+class MusicEngine {
+  private theme: MusicTheme | null = null;
+  private output: GainNode | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private step = 0;
+  private nextStepTime = 0;
+  private noise: AudioBuffer | null = null;
+
+  // Follows the game's status for as long as it's attached
+  attach() {
+    const unsubscribe = useStore.subscribe((state, prev) => {
+      if (state.status !== prev.status) this.play(STATUS_THEMES[state.status] ?? null);
+    });
+    return () => {
+      unsubscribe();
+      this.play(null);
+    };
+  }
+
+  private play(theme: MusicTheme | null) {
+    if (theme === this.theme) return;
+    this.fadeOut();
+    this.theme = theme;
+    if (!theme) return;
+
+    audio.init();
+    const ctx = audio.ctx;
+    if (!ctx) return;
+
+    this.output = ctx.createGain();
+    this.output.gain.setValueAtTime(0, ctx.currentTime);
+    this.output.gain.linearRampToValueAtTime(1, ctx.currentTime + CROSSFADE);
+    this.output.connect(audio.bus('music'));
+
+    this.step = 0;
+    this.nextStepTime = ctx.currentTime + 0.05;
+    if (!this.timer) this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+  }
+
+  private fadeOut() {
+    const output = this.output;
+    const ctx = audio.ctx;
+    this.output = null;
+    if (!output || !ctx) return;
+
+    output.gain.cancelScheduledValues(ctx.currentTime);
+    output.gain.setValueAtTime(output.gain.value, ctx.currentTime);
+    output.gain.linearRampToValueAtTime(0, ctx.currentTime + CROSSFADE);
+    setTimeout(() => output.disconnect(), CROSSFADE * 1000 + 100);
+  }
+
+  private schedule() {
+    const ctx = audio.ctx;
+    if (!ctx || !this.theme || !this.output) {
+      // Nothing left to play: sleep until the next theme starts the timer again
+      if (this.timer) clearInterval(this.timer);
+      this.timer = null;
+      return;
+    }
+
+    // A replay runs on its own store, so follow whichever run is on screen
+    const state = getActiveSimulation().store.getState();
+    const intensity = this.theme.adaptive ? getIntensity(state) : 0;
+    const bpm = this.theme.bpm + intensity * MAX_TEMPO_BOOST;
+    const stepTime = 60 / bpm / 4;
+
+    // After a stall (hidden tab), skip ahead instead of firing a backlog of notes at once
+    if (this.nextStepTime < ctx.currentTime) this.nextStepTime = ctx.currentTime + 0.05;
+
+    while (this.nextStepTime < ctx.currentTime + LOOKAHEAD) {
+      this.playStep(this.theme, getLayers(this.theme, state), intensity, this.nextStepTime, stepTime);
+      this.nextStepTime += stepTime;
+      this.step++;
+    }
+  }
+
+  private playStep(theme: MusicTheme, layers: Set<MusicLayer>, intensity: number, time: number, stepTime: number) {
+    const stepInBar = this.step % STEPS_PER_BAR;
+    const bar = Math.floor(this.step / STEPS_PER_BAR);
+    const chord = theme.chords[bar % theme.chords.length];
+    const root = theme.root + chord[0];
+    // Filters open up with speed, so faster runs sound brighter
+    const cutoff = 600 + intensity * 2400;
+
+    if (layers.has('PAD') && stepInBar === 0) {
+      chord.forEach(offset => this.pad(time, theme.root + 12 + offset, stepTime * STEPS_PER_BAR));
+    }
+
+    // Octave-bouncing eighths
+    if (layers.has('BASS') && stepInBar % 2 === 0) {
+      this.bass(time, root + (stepInBar % 4 === 2 ? 12 : 0), stepTime * 1.8, cutoff);
+    }
+
+    if (layers.has('DRUMS')) {
+      if (stepInBar % 4 === 0) this.kick(time);
+      if (stepInBar === 4 || stepInBar === 12) this.snare(time);
+      if (stepInBar % 4 === 2 || (intensity > 0.5 && stepInBar % 2 === 1)) this.hat(time);
+    }
+
+    // Chord tones climbing over two octaves, one per sixteenth
+    if (layers.has('ARP')) {
+      const tone = chord[stepInBar % chord.length] + 12 * (Math.floor(stepInBar / chord.length) % 2);
+      this.arp(time, theme.root + 24 + tone, stepTime * 0.9, cutoff);
+    }
+
+    // A slow answering line on top of the arp
+    if (layers.has('LEAD') && stepInBar % 8 === 0) {
+      this.lead(time, theme.root + 36 + chord[(bar + stepInBar / 8) % chord.length], stepTime * 6);
+    }
+
+    // A high fifth rubbing against the minor sixth above it, like a ticking alarm
+    if (layers.has('TENSION') && stepInBar % 2 === 0) {
+      this.tension(time, theme.root + 31 + (stepInBar % 4 === 0 ? 0 : 1), stepTime);
+    }
+  }
+
+  // --- VOICES ---
+
+  private voice(type: OscillatorType, note: number, time: number, duration: number, level: number, attack = 0.005) {
+    const ctx = audio.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(midiToHz(note), time);
+    gain.gain.setValueAtTime(0.0001, time);
+    gain.gain.exponentialRampToValueAtTime(level, time + attack);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+
+    osc.connect(gain);
+    osc.start(time);
+    osc.stop(time + duration + 0.05);
+    return { osc, gain };
+  }
+
+  private filtered(node: AudioNode, type: BiquadFilterType, frequency: number) {
+    const filter = audio.ctx!.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    node.connect(filter);
+    filter.connect(this.output!);
+  }
+
+  private pad(time: number, note: number, duration: number) {
+    // Two detuned saws for width, with a slow swell
+    [-7, 7].forEach(detune => {
+      const { osc, gain } = this.voice('sawtooth', note, time, duration, 0.04, duration * 0.3);
+      osc.detune.value = detune;
+      this.filtered(gain, 'lowpass', 1200);
+    });
+  }
+
+  private bass(time: number, note: number, duration: number, cutoff: number) {
+    const { gain } = this.voice('sawtooth', note, time, duration, 0.18);
+    this.filtered(gain, 'lowpass', cutoff * 0.5);
+  }
+
+  private arp(time: number, note: number, duration: number, cutoff: number) {
+    const { gain } = this.voice('square', note, time, duration, 0.05);
+    this.filtered(gain, 'lowpass', cutoff + 800);
+  }
+
+  private lead(time: number, note: number, duration: number) {
+    const { gain } = this.voice('triangle', note, time, duration, 0.08, 0.05);
+    gain.connect(this.output!);
+  }
+
+  private tension(time: number, note: number, duration: number) {
+    const { gain } = this.voice('square', note, time, duration, 0.04);
+    this.filtered(gain, 'bandpass', 2000);
+  }
+
+  private kick(time: number) {
+    const ctx = audio.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.frequency.setValueAtTime(150, time);
+    osc.frequency.exponentialRampToValueAtTime(40, time + 0.15);
+    gain.gain.setValueAtTime(0.5, time);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + 0.2);
+
+    osc.connect(gain);
+    gain.connect(this.output!);
+    osc.start(time);
+    osc.stop(time + 0.2);
+  }
+
+  private snare(time: number) {
+    this.noiseHit(time, 0.15, 0.2, 'highpass', 1200);
+  }
+
+  private hat(time: number) {
+    this.noiseHit(time, 0.04, 0.08, 'highpass', 7000);
+  }
+
+  private noiseHit(time: number, duration: number, level: number, type: BiquadFilterType, frequency: number) {
+    const ctx = audio.ctx!;
+    if (!this.noise || this.noise.sampleRate !== ctx.sampleRate) {
+      this.noise = ctx.createBuffer(1, ctx.sampleRate * 0.5, ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+    }
+
+    const source = ctx.createBufferSource();
+    const gain = ctx.createGain();
+    source.buffer = this.noise;
+    gain.gain.setValueAtTime(level, time);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+
+    source.connect(gain);
+    this.filtered(gain, type, frequency);
+    source.start(time);
+    source.stop(time + duration);
+  }
+}
+
+export const music = new MusicEngine();
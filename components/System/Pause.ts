@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useRef } from 'react';
+import { RootState, useFrame } from '@react-three/fiber';
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { replayPlayer } from './Replay';
+import { onAction } from './Input';
+
+// The world freezes for the pause menu and for a paused replay
+export const isWorldPaused = () => {
+  const { status } = useStore.getState();
+  return status === GameStatus.PAUSED || (status === GameStatus.REPLAY && replayPlayer.paused);
+};
+
+export const togglePause = () => {
+  const { status, pauseGame, resumeGame } = useStore.getState();
+  if (status === GameStatus.PLAYING) pauseGame();
+  else if (status === GameStatus.PAUSED) resumeGame();
+};
+
+type GameFrameCallback = (state: RootState, delta: number, elapsed: number) => void;
+
+/**
+ * useFrame for world animation: skipped entirely while paused, with an elapsed
+ * time that stops with it, so nothing jumps ahead on resume.
+ */
+export const useGameFrame = (callback: GameFrameCallback) => {
+  const elapsed = useRef(0);
+  useFrame((state, delta) => {
+    if (isWorldPaused()) return;
+    elapsed.current += delta;
+    callback(state, delta, elapsed.current);
+  });
+};
+
+// Pause action from any device, plus an automatic pause when the tab is hidden or loses focus
+export const attachPauseHandling = () => {
+  const autoPause = () => {
+    if (useStore.getState().status === GameStatus.PLAYING) useStore.getState().pauseGame();
+  };
+  const handleVisibility = () => {
+    if (document.hidden) autoPause();
+  };
+
+  const unsubscribe = onAction(action => {
+    if (action === 'PAUSE') togglePause();
+  });
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('blur', autoPause);
+
+  return () => {
+    unsubscribe();
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('blur', autoPause);
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { Magnet, ShieldCheck, Hourglass, Sparkles } from 'lucide-react';
+import { ActivePowerUps, PowerUpDefinition, PowerUpKind } from '../../types';
+
+// Timed boosts picked up on the track. Different kinds run side by side;
+// picking up one that is already running follows its stacking rule.
+export const POWER_UPS: Record<PowerUpKind, PowerUpDefinition> = {
+  MAGNET: {
+    kind: 'MAGNET',
+    name: 'MAGNET',
+    color: '#00e5ff',
+    icon: Magnet,
+    duration: 10,
+    stacking: 'EXTEND',
+    maxDuration: 20,
+    modify: (modifiers) => { modifiers.magnetRange = Math.max(modifiers.magnetRange, 40); }
+  },
+  SHIELD: {
+    kind: 'SHIELD',
+    name: 'SHIELD',
+    color: '#44ff88',
+    icon: ShieldCheck,
+    // Lasts until it absorbs a hit, or runs out; a second bubble only restarts the clock
+    duration: 15,
+    stacking: 'REFRESH',
+    maxDuration: 15,
+    modify: (modifiers) => { modifiers.shielded = true; }
+  },
+  SLOW_MO: {
+    kind: 'SLOW_MO',
+    name: 'SLOW-MO',
+    color: '#b388ff',
+    icon: Hourglass,
+    duration: 6,
+    stacking: 'REFRESH',
+    maxDuration: 6,
+    modify: (modifiers) => { modifiers.speedScale *= 0.6; }
+  },
+  MULTIPLIER: {
+    kind: 'MULTIPLIER',
+    name: '2X SCORE',
+    color: '#ffd600',
+    icon: Sparkles,
+    duration: 10,
+    stacking: 'EXTEND',
+    maxDuration: 20,
+    // On top of any Credit Amplifier tiers
+    modify: (modifiers) => { modifiers.scoreMultiplier *= 2; }
+  }
+};
+
+export const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+export const addPowerUp = (active: ActivePowerUps, kind: PowerUpKind): ActivePowerUps => {
+  const { duration, stacking, maxDuration } = POWER_UPS[kind];
+  const remaining = active[kind] ?? 0;
+  const next = stacking === 'EXTEND' ? Math.min(remaining + duration, maxDuration) : Math.max(remaining, duration);
+  return { ...active, [kind]: next };
+};
+
+export const removePowerUp = (active: ActivePowerUps, kind: PowerUpKind): ActivePowerUps => {
+  const next = { ...active };
+  delete next[kind];
+  return next;
+};
+
+// Counts every running power-up down, dropping the ones that run out
+export const tickPowerUps = (active: ActivePowerUps, delta: number): ActivePowerUps => {
+  const next: ActivePowerUps = {};
+  for (const kind of POWER_UP_KINDS) {
+    const remaining = (active[kind] ?? 0) - delta;
+    if (remaining > 0) next[kind] = remaining;
+  }
+  return next;
+};
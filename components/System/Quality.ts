@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { QualityPreset, QUALITY_PRESETS, useSettings } from '../../settings';
+
+export interface QualityLevel {
+  dpr: [number, number]; // Canvas pixel ratio range; the device's own ratio is clamped into it
+  bloomLevels: number;   // Bloom mip levels, 0 for no bloom at all
+  shadows: boolean;
+  particles: number;     // Burst particle budget
+  stars: number;
+}
+
+export const QUALITY_LEVELS: Record<QualityPreset, QualityLevel> = {
+  LOW: { dpr: [0.5, 0.75], bloomLevels: 0, shadows: false, particles: 150, stars: 250 },
+  MEDIUM: { dpr: [0.75, 1], bloomLevels: 4, shadows: false, particles: 300, stars: 500 },
+  HIGH: { dpr: [1, 1.5], bloomLevels: 8, shadows: true, particles: 600, stars: 1000 },
+  ULTRA: { dpr: [1, 2], bloomLevels: 8, shadows: true, particles: 1000, stars: 2000 }
+};
+
+const FRAME_BUDGET = 1 / 55;   // Seconds; a 60 Hz frame with a little slack
+const HEADROOM = 0.6;          // Frames under this share of the budget leave room to step up
+const STEP_DOWN_AFTER = 2;     // Seconds of long frames before dropping a level
+const STEP_UP_AFTER = 8;       // Seconds of headroom before climbing back, slower so it doesn't flip-flop
+const SETTLE_TIME = 1;         // Ignore frames right after a change, while shaders and targets rebuild
+const SMOOTHING = 0.05;
+const MAX_SAMPLE = 0.5;        // Anything longer is a hidden tab or a stall, not load
+
+// The level actually being drawn; the settings preset is its ceiling
+export const useQuality = create<{ preset: QualityPreset }>()(() => ({
+  preset: useSettings.getState().quality
+}));
+
+export const useQualityLevel = () => QUALITY_LEVELS[useQuality(state => state.preset)];
+
+// Latest readings for the performance overlay; written every frame, read whenever the overlay polls
+export const frameStats = {
+  fps: 0,
+  frameTime: 0, // Smoothed, in seconds
+  drawCalls: 0,
+  triangles: 0,
+  entities: 0
+};
+
+/**
+ * Watches smoothed frame time and moves the drawn preset between LOW and the one picked in settings.
+ * Long frames for a while step it down; sustained headroom steps it back up.
+ */
+class AdaptiveQuality {
+  private slowTime = 0;
+  private fastTime = 0;
+  private settleTime = 0;
+
+  constructor() {
+    useSettings.subscribe((state, prev) => {
+      if (state.quality !== prev.quality || state.adaptiveQuality !== prev.adaptiveQuality) {
+        this.setPreset(state.quality);
+      }
+    });
+  }
+
+  sample(delta: number) {
+    if (delta <= 0 || delta > MAX_SAMPLE) return;
+
+    frameStats.frameTime = frameStats.frameTime > 0
+      ? frameStats.frameTime + (delta - frameStats.frameTime) * SMOOTHING
+      : delta;
+    frameStats.fps = 1 / frameStats.frameTime;
+
+    const { quality, adaptiveQuality } = useSettings.getState();
+    if (!adaptiveQuality) return;
+    if (this.settleTime > 0) {
+      this.settleTime -= delta;
+      return;
+    }
+
+    const frameTime = frameStats.frameTime;
+    this.slowTime = frameTime > FRAME_BUDGET ? this.slowTime + delta : 0;
+    this.fastTime = frameTime < FRAME_BUDGET * HEADROOM ? this.fastTime + delta : 0;
+
+    const current = QUALITY_PRESETS.indexOf(useQuality.getState().preset);
+    if (this.slowTime > STEP_DOWN_AFTER && current > 0) {
+      this.setPreset(QUALITY_PRESETS[current - 1]);
+    } else if (this.fastTime > STEP_UP_AFTER && current < QUALITY_PRESETS.indexOf(quality)) {
+      this.setPreset(QUALITY_PRESETS[current + 1]);
+    }
+  }
+
+  private setPreset(preset: QualityPreset) {
+    this.slowTime = 0;
+    this.fastTime = 0;
+    this.settleTime = SETTLE_TIME;
+    if (preset !== useQuality.getState().preset) useQuality.setState({ preset });
+  }
+}
+
+export const adaptiveQuality = new AdaptiveQuality();
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Mulberry32: tiny, fast and good enough for gameplay.
+// The same seed always yields the same sequence, which makes runs reproducible.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // In-place Fisher-Yates shuffle
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+const MAX_SEED = 0xFFFFFFFF;
+
+export const createSeed = (): number => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+// FNV-1a, used to turn arbitrary text (e.g. "DAILY-2025-01-01") into a seed
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Seeds are shared as short base36 codes
+export const formatSeed = (seed: number): string => seed.toString(36).toUpperCase();
+
+export const parseSeed = (text: string): number | null => {
+  const code = text.trim().toUpperCase();
+  if (!code) return null;
+
+  if (/^[0-9A-Z]{1,7}$/.test(code)) {
+    const value = parseInt(code, 36);
+    if (value <= MAX_SEED) return value;
+  }
+  return hashSeed(code);
+};
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { createStore, useStore as useZustandStore } from 'zustand';
+import { GameState, createGameState, useStore } from '../../store';
+import { Difficulty, GameStatus, ItemId, Replay, ReplayAction, ReplayInput } from '../../types';
+import { isItemId } from './Items';
+import { GameSimulation, SIMULATION_STEP, simulation } from './Simulation';
+import { normalizeTargetWord } from './TargetWord';
+
+// --- FILE FORMAT ---
+// Inputs are stored as [ticksSincePreviousInput, code, ...args] tuples to keep files small
+
+const REPLAY_FORMAT_VERSION = 1;
+
+const ACTION_CODES: Record<ReplayAction, string> = {
+  LEFT: 'L',
+  RIGHT: 'R',
+  JUMP: 'J',
+  SLIDE: 'S',
+  ABILITY: 'A',
+  FIRE: 'F',
+  BUY: 'B',
+  CLOSE_SHOP: 'C'
+};
+
+const CODE_ACTIONS = Object.fromEntries(
+  Object.entries(ACTION_CODES).map(([action, code]) => [code, action as ReplayAction])
+);
+
+type EncodedInput = [number, string, ...(string | number)[]];
+
+export const encodeReplay = (replay: Replay): string => {
+  let lastTick = 0;
+  const inputs = replay.inputs.map((input): EncodedInput => {
+    const encoded: EncodedInput = [input.tick - lastTick, ACTION_CODES[input.action]];
+    if (input.action === 'BUY') encoded.push(input.item ?? '', input.cost ?? 0);
+    lastTick = input.tick;
+    return encoded;
+  });
+
+  return JSON.stringify({
+    v: REPLAY_FORMAT_VERSION,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    word: replay.targetWord,
+    ticks: replay.ticks,
+    inputs
+  });
+};
+
+export const decodeReplay = (json: string): Replay => {
+  const data = JSON.parse(json);
+  if (!data || data.v !== REPLAY_FORMAT_VERSION) {
+    throw new Error('Unsupported replay file');
+  }
+  if (!Number.isInteger(data.seed) || !Number.isInteger(data.ticks) || !Array.isArray(data.inputs)) {
+    throw new Error('Corrupt replay file');
+  }
+  if (!Object.values(Difficulty).includes(data.difficulty)) {
+    throw new Error(`Unknown difficulty "${data.difficulty}" in replay`);
+  }
+  const targetWord = data.word === undefined ? undefined : normalizeTargetWord(String(data.word));
+  if (targetWord === null) {
+    throw new Error('Invalid target word in replay');
+  }
+
+  let tick = 0;
+  const inputs = data.inputs.map((entry: unknown): ReplayInput => {
+    if (!Array.isArray(entry) || !Number.isInteger(entry[0]) || !(entry[1] in CODE_ACTIONS)) {
+      throw new Error('Corrupt replay input');
+    }
+    tick += entry[0];
+    const action = CODE_ACTIONS[entry[1]];
+    if (action === 'BUY' && !isItemId(String(entry[2]))) {
+      throw new Error(`Unknown item "${entry[2]}" in replay`);
+    }
+    return action === 'BUY'
+      ? { tick, action, item: String(entry[2]), cost: Number(entry[3]) }
+      : { tick, action };
+  });
+
+  return { seed: data.seed, difficulty: data.difficulty, targetWord, ticks: data.ticks, inputs };
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([encodeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `time-tunnel-${replay.seed.toString(36)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- PLAYBACK ---
+
+/**
+ * Re-simulates a recorded run on its own store, feeding recorded inputs back in
+ * at the tick they were originally applied. The live game is left untouched.
+ */
+export class ReplayPlayer {
+  readonly store = createStore<GameState>()(createGameState);
+  readonly simulation = new GameSimulation(this.store);
+  replay: Replay | null = null;
+  paused = false;
+  playbackRate = 1;
+
+  private cursor = 0; // Next input to apply
+  private accumulator = 0;
+
+  get finished() {
+    if (!this.replay) return true;
+    const { status } = this.store.getState();
+    return status === GameStatus.GAME_OVER || status === GameStatus.VICTORY || this.simulation.tick >= this.replay.ticks;
+  }
+
+  load(replay: Replay) {
+    this.replay = replay;
+    this.paused = false;
+    this.playbackRate = 1;
+    this.seek(0);
+  }
+
+  // Scrubbing re-simulates from the start, which is cheap for a headless simulation
+  seek(tick: number) {
+    if (!this.replay) return;
+    this.store.getState().startGame(this.replay.difficulty, this.replay.seed, { targetWord: this.replay.targetWord });
+    this.cursor = 0;
+    this.accumulator = 0;
+
+    const wasMuted = this.simulation.muted;
+    this.simulation.muted = true;
+    this.advanceTo(tick);
+    this.simulation.muted = wasMuted;
+  }
+
+  // Step straight to a tick, e.g. to keep pace with another simulation
+  advanceTo(tick: number) {
+    while (this.simulation.tick < tick && !this.finished) this.advance();
+  }
+
+  update(delta: number) {
+    if (this.paused || this.finished) return;
+
+    this.accumulator += Math.min(delta, 0.25) * this.playbackRate;
+    while (this.accumulator >= SIMULATION_STEP && !this.finished) {
+      this.accumulator -= SIMULATION_STEP;
+      this.advance();
+    }
+  }
+
+  private advance() {
+    const inputs = this.replay!.inputs;
+    const tick = this.simulation.tick;
+
+    while (this.cursor < inputs.length && inputs[this.cursor].tick <= tick) {
+      const input = inputs[this.cursor++];
+      if (input.action === 'BUY') {
+        this.simulation.purchase(input.item as ItemId);
+      } else if (input.action === 'CLOSE_SHOP') {
+        this.simulation.leaveShop();
+      } else {
+        this.simulation.input(input.action);
+      }
+    }
+
+    // Shop visits take no ticks; never stall if a recording ends inside one
+    if (this.store.getState().status === GameStatus.SHOP) {
+      this.simulation.leaveShop();
+    }
+
+    this.simulation.step();
+  }
+}
+
+export const replayPlayer = new ReplayPlayer();
+
+// Whichever simulation is on screen: the live run, or the replay being watched
+export const getActiveSimulation = () =>
+  useStore.getState().status === GameStatus.REPLAY ? replayPlayer.simulation : simulation;
+
+// Same idea for game state, so world and HUD components can render either one
+export const useRunStore = <T>(selector: (state: GameState) => T): T => {
+  const isReplay = useStore(state => state.status === GameStatus.REPLAY);
+  return useZustandStore(isReplay ? replayPlayer.store : useStore, selector);
+};
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useStore } from '../../store';
+import { Difficulty, GameStatus, ObjectType } from '../../types';
+import { readJSON, writeJSON } from './Storage';
+
+const HISTORY_KEY = 'time-tunnel:runs';
+const MAX_HISTORY = 200; // Oldest runs are dropped beyond this
+export const LEADERBOARD_SIZE = 10;
+
+// 'TIME' when the clock ran out, otherwise whatever took the last life
+export type CauseOfDeath = 'TIME' | ObjectType;
+
+export interface RunRecord {
+  id: string;
+  date: number; // Epoch ms
+  difficulty: Difficulty;
+  seed: number;
+  score: number;
+  distance: number;
+  gems: number;
+  level: number;
+  timeLeft: number;
+  victory: boolean;
+  causeOfDeath: CauseOfDeath | null; // null for victories
+  targetWord?: string; // Only set for runs with a custom word
+}
+
+export interface RunStats {
+  runs: number;
+  victories: number;
+  bestScore: number;
+  averageScore: number;
+  totalDistance: number;
+  totalGems: number;
+  commonCause: CauseOfDeath | null;
+}
+
+export const getRunStats = (runs: RunRecord[]): RunStats => {
+  const causes = new Map<CauseOfDeath, number>();
+  runs.forEach(run => {
+    if (run.causeOfDeath) causes.set(run.causeOfDeath, (causes.get(run.causeOfDeath) ?? 0) + 1);
+  });
+
+  let commonCause: CauseOfDeath | null = null;
+  let commonCount = 0;
+  for (const [cause, count] of causes) {
+    if (count > commonCount) {
+      commonCause = cause;
+      commonCount = count;
+    }
+  }
+
+  const totalScore = runs.reduce((sum, run) => sum + run.score, 0);
+  return {
+    runs: runs.length,
+    victories: runs.filter(run => run.victory).length,
+    bestScore: runs.reduce((best, run) => Math.max(best, run.score), 0),
+    averageScore: runs.length > 0 ? Math.round(totalScore / runs.length) : 0,
+    totalDistance: runs.reduce((sum, run) => sum + run.distance, 0),
+    totalGems: runs.reduce((sum, run) => sum + run.gems, 0),
+    commonCause
+  };
+};
+
+// Custom words change what a run is worth, so only runs on the levels' own words are compared
+export const isStandardRun = (run: RunRecord) => !run.targetWord;
+
+const rankRuns = (runs: RunRecord[], difficulty: Difficulty) => runs
+  .filter(run => run.difficulty === difficulty && isStandardRun(run))
+  .sort((a, b) => b.score - a.score || a.date - b.date)
+  .slice(0, LEADERBOARD_SIZE);
+
+/**
+ * Records every finished run of the live game, newest first.
+ */
+export class RunHistory {
+  lastRun: RunRecord | null = null;
+
+  constructor() {
+    useStore.subscribe((state, prev) => {
+      const isRunOver = state.status === GameStatus.GAME_OVER || state.status === GameStatus.VICTORY;
+      if (isRunOver && prev.status === GameStatus.PLAYING) {
+        const victory = state.status === GameStatus.VICTORY;
+        this.record({
+          id: `${Date.now()}-${state.runId}`,
+          date: Date.now(),
+          difficulty: state.difficulty,
+          seed: state.seed,
+          score: state.score,
+          distance: Math.floor(state.distance),
+          gems: state.gemsCollected,
+          level: state.level,
+          timeLeft: Math.max(0, state.timeLeft),
+          victory,
+          causeOfDeath: victory ? null : (state.timeLeft <= 0 ? 'TIME' : state.lastDamageSource),
+          targetWord: state.customWord ?? undefined
+        });
+      }
+    });
+  }
+
+  getRuns(): RunRecord[] {
+    return readJSON<RunRecord[]>(HISTORY_KEY, []);
+  }
+
+  record(run: RunRecord) {
+    this.lastRun = run;
+    const runs = [run, ...this.getRuns()];
+
+    // Trim old history, but never drop a run that still holds a leaderboard spot
+    const ranked = new Set(Object.values(Difficulty).flatMap(diff => rankRuns(runs, diff).map(r => r.id)));
+    writeJSON(HISTORY_KEY, runs.filter((r, i) => i < MAX_HISTORY || ranked.has(r.id)));
+  }
+
+  getLeaderboard(difficulty: Difficulty): RunRecord[] {
+    return rankRuns(this.getRuns(), difficulty);
+  }
+
+  // 1-based leaderboard position of a run, or null if it did not place
+  getRank(run: RunRecord): number | null {
+    const index = this.getLeaderboard(run.difficulty).findIndex(entry => entry.id === run.id);
+    return index === -1 ? null : index + 1;
+  }
+
+  clear() {
+    writeJSON(HISTORY_KEY, []);
+    this.lastRun = null;
+  }
+}
+
+export const runHistory = new RunHistory();
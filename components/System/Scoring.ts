@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ScoreBreakdown, ScoreSource, StyleBonus } from '../../types';
+
+// --- COMBO ---
+// Every pickup adds to the combo and restarts its timer; a hit, a wrong letter or the timer running out ends it
+
+export const COMBO_WINDOW = 3; // seconds
+const COMBO_STEP = 5;          // Pickups per multiplier step
+const COMBO_STEP_BONUS = 0.5;
+const MAX_COMBO_MULTIPLIER = 4;
+
+export const getComboMultiplier = (combo: number) =>
+  Math.min(1 + Math.floor(combo / COMBO_STEP) * COMBO_STEP_BONUS, MAX_COMBO_MULTIPLIER);
+
+// The combo multiplies every source; item and power-up multipliers only gems and kills
+export const ITEM_MULTIPLIED_SOURCES: ScoreSource[] = ['GEMS', 'ENEMIES'];
+
+// --- STYLE ---
+
+// Before the combo multiplier
+export const STYLE_POINTS: Record<StyleBonus, number> = {
+  NEAR_MISS: 10,
+  BARREL_ROLL: 250,
+  PERFECT_LEVEL: 1000
+};
+
+export const NEAR_MISS_MIN_SPEED = 35; // Track speed a near miss has to happen at
+
+// --- BREAKDOWN ---
+
+export const SCORE_SOURCES: ScoreSource[] = ['GEMS', 'ENEMIES', 'NEAR_MISS', 'BARREL_ROLL', 'PERFECT_LEVEL', 'VICTORY'];
+
+export const createScoreBreakdown = (): ScoreBreakdown =>
+  Object.fromEntries(SCORE_SOURCES.map(source => [source, 0])) as ScoreBreakdown;
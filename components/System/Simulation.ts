@@ -0,0 +1,614 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { StoreApi } from 'zustand';
+import { GameState, LetterPickup, getAggression, useStore } from '../../store';
+import { AiProfile, GameObject, ItemId, ItemTrigger, Modifiers, ObjectType, StyleBonus, GameStatus, LANE_WIDTH, SPAWN_DISTANCE, REMOVE_DISTANCE, LevelDefinition, Replay, ReplayInput } from '../../types';
+import { SeededRandom, hashSeed } from './Random';
+import { getLevelDefinition, scaleAiProfile, SPAWNABLE_TYPES } from './Levels';
+import { AabbCollider, Vec3, getPlayerCollider, sweepCollider } from './Colliders';
+import { ENTITY_REGISTRY, UpdateContext } from '../Entities';
+import { approach, releaseObject } from '../Entities/Entity';
+import { ITEM_REGISTRY, getItemCost, getModifiers } from './Items';
+import { NEAR_MISS_MIN_SPEED, STYLE_POINTS } from './Scoring';
+
+// Gameplay advances in fixed steps, independent of the render frame rate
+export const SIMULATION_STEP = 1 / 60;
+const MAX_FRAME_TIME = 0.25; // Avoid a spiral of catch-up steps after a long hitch
+
+// Physics Constants
+const GRAVITY = 60;
+const JUMP_FORCE = 18;
+const LANE_CHANGE_RATE = 12;
+const HIT_INVINCIBILITY = 1.5; // seconds
+const SLIDE_DURATION = 0.6; // seconds
+const MAGNET_PULL = 14; // Sideways speed of pickups caught by a magnet
+const PASSED_Z = 2; // Hazards this far behind can no longer touch the car
+const MAGNET_REACH = LANE_WIDTH * 1.5; // Only from the lanes either side
+const FAR_DISTANCE = SPAWN_DISTANCE + 60; // Anything this far ahead is gone for good, e.g. shots that missed
+
+export type SimulationInput = 'LEFT' | 'RIGHT' | 'JUMP' | 'SLIDE' | 'ABILITY' | 'FIRE';
+
+export interface PlayerState {
+  lane: number;
+  x: number;
+  y: number;
+  velocityY: number;
+  isJumping: boolean;
+  jumpsPerformed: number;
+  invincibleTime: number; // Grace period after taking a hit
+  slideTime: number; // Remaining slide, the car is low while > 0
+}
+
+export type SimulationEvent =
+  | { type: 'JUMP'; double: boolean }
+  | { type: 'HIT'; object: GameObject; damaged: boolean; shielded?: boolean }
+  | { type: 'COLLECT'; object: GameObject }
+  | { type: 'WRONG_LETTER'; object: GameObject }
+  | { type: 'MISSILE_FIRED'; object: GameObject }
+  | { type: 'LOCK_ON'; object: GameObject }
+  | { type: 'BOSS_HIT'; object: GameObject; defeated: boolean }
+  | { type: 'FIRED'; object: GameObject; item: ItemId }
+  | { type: 'DESTROYED'; object: GameObject; points: number }
+  | { type: 'STYLE'; object: GameObject; bonus: StyleBonus };
+
+type SimulationListener = (event: SimulationEvent) => void;
+
+const createPlayerState = (): PlayerState => ({
+  lane: 0,
+  x: 0,
+  y: 0,
+  velocityY: 0,
+  isJumping: false,
+  jumpsPerformed: 0,
+  invincibleTime: 0,
+  slideTime: 0
+});
+
+// Entity AI draws from its own stream, derived from the run seed
+const getAiSeed = (seed: number) => hashSeed(`${seed}:AI`);
+
+// Weighted pick among the level's spawnable types, skipping any still below their speed gate
+const pickSpawnType = (rng: SeededRandom, def: LevelDefinition, speed: number): ObjectType => {
+  const candidates = SPAWNABLE_TYPES.filter(type =>
+    (def.spawnWeights[type] ?? 0) > 0 && speed > (def.minSpeed?.[type] ?? -Infinity)
+  );
+  if (candidates.length === 0) return ObjectType.GEM;
+
+  const total = candidates.reduce((sum, type) => sum + def.spawnWeights[type]!, 0);
+  let roll = rng.next() * total;
+  for (const type of candidates) {
+    roll -= def.spawnWeights[type]!;
+    if (roll < 0) return type;
+  }
+  return candidates[candidates.length - 1];
+};
+
+/**
+ * Headless game loop: owns track objects, player physics and collision.
+ * Game rules (score, lives, timer, levels) stay in the store it is bound to,
+ * so it can be stepped in Node against a vanilla store without a Canvas.
+ */
+export class GameSimulation {
+  objects: GameObject[] = [];
+  player: PlayerState = createPlayerState();
+  distance = 0;
+  tick = 0;
+  version = 0; // Bumped whenever the object list changes, so renderers know to re-sync
+  muted = false; // Suppresses events, e.g. while fast-forwarding a replay
+  recording: ReplayInput[] = [];
+
+  private accumulator = 0;
+  private rng: SeededRandom;
+  private aiRng: SeededRandom; // Entity AI rolls; kept apart so reacting to the player never shifts the track
+  private nextLetterDistance = getLevelDefinition(1).letterInterval;
+  private level: number;
+  private ai: AiProfile;
+  private bossActive = false;
+  private pendingInputs: SimulationInput[] = [];
+  private listeners = new Set<SimulationListener>();
+
+  constructor(readonly store: StoreApi<GameState>) {
+    const { seed, level } = store.getState();
+    this.rng = new SeededRandom(seed);
+    this.aiRng = new SeededRandom(getAiSeed(seed));
+    this.level = level;
+    this.ai = this.getAiProfile();
+
+    store.subscribe((state, prev) => {
+      if (state.runId !== prev.runId) {
+        this.reset();
+      } else if (state.status === GameStatus.MENU && prev.status !== GameStatus.MENU) {
+        this.clearObjects(() => true);
+      }
+    });
+  }
+
+  subscribe(listener: SimulationListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  reset() {
+    const { seed, level } = this.store.getState();
+    this.clearObjects(() => true);
+    this.player = createPlayerState();
+    this.distance = 0;
+    this.tick = 0;
+    this.accumulator = 0;
+    this.nextLetterDistance = getLevelDefinition(level).letterInterval;
+    this.level = level;
+    this.ai = this.getAiProfile();
+    this.bossActive = false;
+    this.pendingInputs = [];
+    this.recording = [];
+    // Re-seed so every run with the same seed produces the same track
+    this.rng = new SeededRandom(seed);
+    this.aiRng = new SeededRandom(getAiSeed(seed));
+    this.version++;
+  }
+
+  // Inputs are queued and applied at the start of the next step
+  input(action: SimulationInput) {
+    if (this.store.getState().status !== GameStatus.PLAYING) return;
+    this.pendingInputs.push(action);
+  }
+
+  // Shop actions go through the simulation so they end up in the recording
+  purchase(item: ItemId) {
+    const cost = getItemCost(item, this.store.getState().inventory) ?? 0;
+    this.recording.push({ tick: this.tick, action: 'BUY', item, cost });
+    return this.store.getState().buyItem(item);
+  }
+
+  leaveShop() {
+    this.recording.push({ tick: this.tick, action: 'CLOSE_SHOP' });
+    this.store.getState().closeShop();
+  }
+
+  getReplay(): Replay {
+    const { seed, difficulty, customWord } = this.store.getState();
+    return {
+      seed,
+      difficulty,
+      targetWord: customWord ?? undefined,
+      ticks: this.tick,
+      inputs: [...this.recording]
+    };
+  }
+
+  // Advance by real elapsed time, running as many fixed steps as fit
+  update(delta: number) {
+    if (this.store.getState().status !== GameStatus.PLAYING) {
+      this.accumulator = 0;
+      return;
+    }
+
+    this.accumulator += Math.min(delta, MAX_FRAME_TIME);
+    while (this.accumulator >= SIMULATION_STEP) {
+      this.accumulator -= SIMULATION_STEP;
+      this.step();
+      if (this.store.getState().status !== GameStatus.PLAYING) {
+        this.accumulator = 0;
+        break;
+      }
+    }
+  }
+
+  step() {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING) return;
+
+    const dt = SIMULATION_STEP;
+
+    for (const action of this.pendingInputs) this.applyInput(action);
+    this.pendingInputs = [];
+
+    state.decrementTimer(dt);
+
+    const modifiers = getModifiers(this.store.getState());
+    const dist = state.speed * modifiers.speedScale * dt;
+    this.distance += dist;
+    state.setDistance(this.distance);
+
+    // Collisions are swept from where the player was at the start of the step
+    const playerFrom: Vec3 = [this.player.x, this.player.y, 0];
+    this.updatePlayer(dt);
+    this.updateObjects(dt, dist, playerFrom, modifiers);
+
+    // Level changes are triggered by collection inside the step, so handle them once it is done
+    const { level } = this.store.getState();
+    if (level !== this.level) {
+      this.level = level;
+      this.ai = this.getAiProfile();
+      if (level > 1) this.startLevel();
+    }
+
+    // Same for a boss being summoned or falling
+    const bossActive = this.store.getState().boss !== null;
+    if (bossActive !== this.bossActive) {
+      this.bossActive = bossActive;
+      if (bossActive) this.startBoss();
+      else this.endBoss();
+    }
+
+    this.spawnObjects();
+    this.tick++;
+  }
+
+  private getAiProfile() {
+    return scaleAiProfile(getLevelDefinition(this.level).ai, getAggression(this.store.getState().difficulty));
+  }
+
+  private emit(event: SimulationEvent) {
+    if (this.muted) return;
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private applyInput(action: SimulationInput) {
+    const state = this.store.getState();
+    const maxLane = Math.floor(state.laneCount / 2);
+    const p = this.player;
+    this.recording.push({ tick: this.tick, action });
+
+    switch (action) {
+      case 'LEFT':
+        p.lane = Math.max(p.lane - 1, -maxLane);
+        break;
+      case 'RIGHT':
+        p.lane = Math.min(p.lane + 1, maxLane);
+        break;
+      case 'JUMP': {
+        const { maxJumps } = getModifiers(state);
+        p.slideTime = 0;
+        if (!p.isJumping) {
+          p.isJumping = true;
+          p.jumpsPerformed = 1;
+          p.velocityY = JUMP_FORCE;
+          this.emit({ type: 'JUMP', double: false });
+        } else if (p.jumpsPerformed < maxJumps) {
+          p.jumpsPerformed += 1;
+          p.velocityY = JUMP_FORCE;
+          this.emit({ type: 'JUMP', double: true });
+        }
+        break;
+      }
+      case 'SLIDE':
+        // Sliding in the air slams the car back down
+        if (p.isJumping) p.velocityY = Math.min(p.velocityY, -JUMP_FORCE);
+        p.slideTime = SLIDE_DURATION;
+        break;
+      case 'ABILITY':
+      case 'FIRE':
+        this.triggerItem(action);
+        break;
+    }
+  }
+
+  private triggerItem(trigger: ItemTrigger) {
+    const item = this.store.getState().triggerItem(trigger);
+    const spawns = item && ITEM_REGISTRY[item].activation?.spawns;
+    if (!item || !spawns) return;
+
+    const [shot] = this.spawn(spawns, -1);
+    if (shot) this.emit({ type: 'FIRED', object: shot, item });
+  }
+
+  private updatePlayer(dt: number) {
+    const p = this.player;
+    const maxLane = Math.floor(this.store.getState().laneCount / 2);
+    p.lane = Math.max(Math.min(p.lane, maxLane), -maxLane);
+
+    // 1. Horizontal Position
+    const targetX = p.lane * LANE_WIDTH;
+    p.x += (targetX - p.x) * Math.min(dt * LANE_CHANGE_RATE, 1);
+
+    // 2. Physics (Jump)
+    if (p.isJumping) {
+      p.y += p.velocityY * dt;
+      p.velocityY -= GRAVITY * dt;
+
+      if (p.y <= 0) {
+        p.y = 0;
+        p.isJumping = false;
+        p.jumpsPerformed = 0;
+        p.velocityY = 0;
+      }
+    }
+
+    if (p.invincibleTime > 0) {
+      p.invincibleTime = Math.max(p.invincibleTime - dt, 0);
+    }
+    if (p.slideTime > 0) {
+      p.slideTime = Math.max(p.slideTime - dt, 0);
+    }
+  }
+
+  private hitPlayer(obj: GameObject) {
+    const state = this.store.getState();
+    const { invulnerable, shielded } = getModifiers(state);
+
+    // Phase Shift turns a boss missile around instead of just shrugging it off
+    if (obj.fromBoss && invulnerable) {
+      this.damageBoss(getLevelDefinition(this.level).boss?.reflectDamage ?? 0);
+      return;
+    }
+
+    const damaged = this.player.invincibleTime <= 0 && !invulnerable;
+
+    // A shield bubble takes the hit in place of a life
+    if (damaged && shielded) {
+      state.consumePowerUp('SHIELD');
+      this.player.invincibleTime = HIT_INVINCIBILITY;
+      this.emit({ type: 'HIT', object: obj, damaged: false, shielded: true });
+      return;
+    }
+
+    if (damaged) {
+      state.takeDamage(obj.type);
+      this.player.invincibleTime = HIT_INVINCIBILITY;
+    }
+    this.emit({ type: 'HIT', object: obj, damaged });
+  }
+
+  private collect(obj: GameObject) {
+    const state = this.store.getState();
+    let pickup: LetterPickup = 'COLLECTED';
+    if (obj.type === ObjectType.LETTER && obj.value !== undefined) {
+      pickup = state.collectLetter(String(obj.value));
+    }
+
+    // Every pickup feeds the combo, apart from an out-of-order letter which ends it
+    if (pickup === 'WRONG_ORDER') state.breakCombo();
+    else state.extendCombo();
+
+    if (obj.type === ObjectType.GEM) {
+      state.collectGem(obj.points || 50);
+    }
+    if (obj.type === ObjectType.POWERUP && obj.powerUp) {
+      state.collectPowerUp(obj.powerUp);
+    }
+    this.emit({ type: pickup === 'WRONG_ORDER' ? 'WRONG_LETTER' : 'COLLECT', object: obj });
+    if (obj.type === ObjectType.CHARGE_GEM) {
+      this.damageBoss(getLevelDefinition(this.level).boss?.chargeDamage ?? 0);
+    }
+  }
+
+  private damageBoss(amount: number) {
+    const boss = this.objects.find(obj => obj.type === ObjectType.BOSS && obj.active);
+    this.store.getState().damageBoss(amount);
+    if (boss) this.emit({ type: 'BOSS_HIT', object: boss, defeated: this.store.getState().boss === null });
+  }
+
+  private updateObjects(dt: number, dist: number, playerFrom: Vec3, { magnetRange }: Modifiers) {
+    const p = this.player;
+    const playerCollider = getPlayerCollider(p.slideTime > 0);
+    const playerTo: Vec3 = [p.x, p.y, 0];
+    const keptObjects: GameObject[] = [];
+    const newSpawns: GameObject[] = [];
+    const dropped: GameObject[] = [];
+    const starts = new Map<GameObject, Vec3>();
+    let hasChanges = false;
+
+    const updateContext: UpdateContext = {
+      dt,
+      rng: this.aiRng,
+      def: getLevelDefinition(this.level),
+      ai: this.ai,
+      laneCount: this.store.getState().laneCount,
+      player: p,
+      spawn: (obj) => {
+        newSpawns.push(obj);
+        hasChanges = true;
+      },
+      emit: (event) => this.emit(event)
+    };
+
+    for (const obj of this.objects) {
+      const entity = ENTITY_REGISTRY[obj.type];
+      const prevZ = obj.position[2];
+      obj.position[2] += dist + (entity.extraSpeed ?? 0) * dt;
+      starts.set(obj, [obj.position[0], obj.position[1], prevZ]);
+
+      if (obj.active) entity.update?.(obj, updateContext);
+      if (obj.active && entity.magnetic && obj.position[2] > -magnetRange && obj.position[2] < 0
+        && Math.abs(obj.position[0] - p.x) < MAGNET_REACH) {
+        obj.position[0] = approach(obj.position[0], p.x, MAGNET_PULL * dt);
+      }
+
+      let keep = true;
+      if (obj.active && entity.role !== 'PROJECTILE') {
+        const objectFrom: Vec3 = [obj.position[0], obj.position[1], prevZ];
+        const touched = entity.colliders(obj).some(collider =>
+          sweepCollider(playerCollider, playerFrom, playerTo, collider, objectFrom, obj.position)
+        );
+
+        if (touched) {
+          obj.active = false;
+          hasChanges = true;
+
+          if (entity.role === 'TRIGGER') {
+            this.store.getState().openShop();
+            keep = false;
+          } else if (entity.role === 'HAZARD') {
+            this.hitPlayer(obj);
+          } else {
+            this.collect(obj);
+          }
+        }
+      }
+
+      // Hazards that got past the player untouched may earn style points
+      if (obj.active && entity.role === 'HAZARD' && prevZ < PASSED_Z && obj.position[2] >= PASSED_Z) {
+        this.scoreStyle(obj, dist / dt);
+      }
+
+      if (obj.position[2] > REMOVE_DISTANCE || obj.position[2] < -FAR_DISTANCE) {
+        keep = false;
+        hasChanges = true;
+      }
+
+      if (keep) {
+        keptObjects.push(obj);
+      } else {
+        dropped.push(obj);
+      }
+    }
+
+    if (this.resolveProjectiles(keptObjects, starts)) {
+      hasChanges = true;
+    }
+
+    if (newSpawns.length > 0) {
+      keptObjects.push(...newSpawns);
+    }
+
+    if (hasChanges) {
+      this.objects = keptObjects;
+      this.version++;
+    }
+    dropped.forEach(releaseObject);
+  }
+
+  private scoreStyle(obj: GameObject, speed: number) {
+    const p = this.player;
+    const entity = ENTITY_REGISTRY[obj.type];
+    const offsets = entity.colliders(obj).map(collider => Math.abs(obj.position[0] + collider.offset[0] - p.x));
+    if (offsets.length === 0) return;
+    const nearest = Math.min(...offsets);
+
+    let bonus: StyleBonus | null = null;
+    if (entity.destructible && p.jumpsPerformed === 2 && nearest < LANE_WIDTH / 2) {
+      bonus = 'BARREL_ROLL';
+    } else if (speed >= NEAR_MISS_MIN_SPEED && nearest >= LANE_WIDTH / 2 && nearest < LANE_WIDTH * 1.5) {
+      bonus = 'NEAR_MISS';
+    }
+    if (!bonus) return;
+
+    this.store.getState().addScore(STYLE_POINTS[bonus], bonus);
+    this.emit({ type: 'STYLE', object: obj, bonus });
+  }
+
+  // Blaster shots against anything destructible, both swept over the step; true if anything was destroyed
+  private resolveProjectiles(objects: GameObject[], starts: Map<GameObject, Vec3>) {
+    let destroyed = false;
+
+    for (const shot of objects) {
+      const shotEntity = ENTITY_REGISTRY[shot.type];
+      if (!shot.active || shotEntity.role !== 'PROJECTILE') continue;
+      const shotColliders = shotEntity.colliders(shot).filter((c): c is AabbCollider => c.shape === 'AABB');
+      const shotFrom = starts.get(shot) ?? shot.position;
+
+      for (const target of objects) {
+        const { destructible, colliders } = ENTITY_REGISTRY[target.type];
+        if (!target.active || !destructible) continue;
+        const targetFrom = starts.get(target) ?? target.position;
+
+        const hit = shotColliders.some(shotCollider => colliders(target).some(collider =>
+          sweepCollider(shotCollider, shotFrom, shot.position, collider, targetFrom, target.position)
+        ));
+        if (!hit) continue;
+
+        shot.active = false;
+        target.active = false;
+        destroyed = true;
+        this.store.getState().addScore(destructible.points, 'ENEMIES');
+        this.emit({ type: 'DESTROYED', object: target, points: destructible.points });
+        break;
+      }
+    }
+    return destroyed;
+  }
+
+  private startLevel() {
+    // Clear deep objects
+    this.clearObjects(obj => obj.position[2] <= -80);
+
+    this.spawn(ObjectType.SHOP_PORTAL, -100);
+
+    this.nextLetterDistance = this.distance - SPAWN_DISTANCE + getLevelDefinition(this.level).letterInterval;
+    this.version++;
+  }
+
+  private startBoss() {
+    this.spawn(ObjectType.BOSS, -SPAWN_DISTANCE);
+    // Charge gems take over the letters' schedule
+    this.nextLetterDistance = this.distance - SPAWN_DISTANCE + (getLevelDefinition(this.level).boss?.chargeInterval ?? 0);
+  }
+
+  private endBoss() {
+    this.clearObjects(obj => obj.type === ObjectType.BOSS || obj.type === ObjectType.CHARGE_GEM);
+  }
+
+  // Drops matching objects and returns them to the pool
+  private clearObjects(predicate: (obj: GameObject) => boolean) {
+    const cleared = this.objects.filter(predicate);
+    this.objects = this.objects.filter(obj => !predicate(obj));
+    this.version++;
+    cleared.forEach(releaseObject);
+  }
+
+  private spawnObjects() {
+    const { speed, level } = this.store.getState();
+    const def = getLevelDefinition(level);
+    const rng = this.rng;
+
+    let furthestZ = -20;
+    // Things that fly under their own power (missiles, shots) don't hold up the spawn line
+    const staticObjects = this.objects.filter(o => !ENTITY_REGISTRY[o.type].extraSpeed);
+
+    if (staticObjects.length > 0) {
+      furthestZ = Math.min(...staticObjects.map(o => o.position[2]));
+    }
+
+    if (furthestZ <= -SPAWN_DISTANCE) return;
+
+    // Spawning Gap dependent on speed
+    const minGap = 12 + (speed * 0.3);
+    const spawnZ = Math.min(furthestZ - minGap, -SPAWN_DISTANCE);
+
+    const isLetterDue = this.distance >= this.nextLetterDistance;
+
+    // During a boss fight its volleys are the hazards; the track only brings charge gems
+    if (def.boss && this.bossActive) {
+      if (isLetterDue && this.spawn(ObjectType.CHARGE_GEM, spawnZ).length > 0) {
+        this.nextLetterDistance += def.boss.chargeInterval;
+      }
+      return;
+    }
+
+    if (isLetterDue) {
+      if (this.spawn(ObjectType.LETTER, spawnZ).length > 0) {
+        this.nextLetterDistance += def.letterInterval;
+      } else {
+        this.spawn(ObjectType.GEM, spawnZ);
+      }
+    } else if (rng.next() < def.spawnChance) {
+      // General Spawn, weighted by the level definition
+      this.spawn(pickSpawnType(rng, def, speed), spawnZ);
+    }
+  }
+
+  // Places whatever the type's spawn rule produces, and returns it
+  private spawn(type: ObjectType, spawnZ: number) {
+    const spawned = ENTITY_REGISTRY[type].spawn?.({
+      rng: this.rng,
+      def: getLevelDefinition(this.level),
+      state: this.store.getState(),
+      player: this.player,
+      spawnZ
+    }) ?? [];
+
+    if (spawned.length > 0) {
+      this.objects.push(...spawned);
+      this.version++;
+    }
+    return spawned;
+  }
+}
+
+// The live game runs against the app store
+export const simulation = new GameSimulation(useStore);
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Minimal key/value contract (a subset of the Web Storage API), so persistence
+// can be swapped for another backend, or for memory in tests and private browsing
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export class MemoryStorage implements KeyValueStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+// localStorage can be missing (Node) or throw on access (privacy modes), so probe it once
+const createDefaultStorage = (): KeyValueStorage => {
+  try {
+    const probe = '__time-tunnel-probe__';
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return window.localStorage;
+  } catch {
+    return new MemoryStorage();
+  }
+};
+
+let storage: KeyValueStorage = createDefaultStorage();
+
+export const getStorage = () => storage;
+
+export const setStorage = (next: KeyValueStorage) => {
+  storage = next;
+};
+
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? fallback : JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+// Returns false when the write failed (e.g. quota exceeded)
+export const writeJSON = (key: string, value: unknown): boolean => {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+};
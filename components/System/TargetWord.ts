@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { getPalette } from './Graphics';
+
+export const MAX_TARGET_LETTERS = 16; // Beyond this the HUD tray no longer fits on a phone
+
+// Split on user-perceived characters, so accented and combined glyphs stay one letter
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+export const splitTargetWord = (word: string): string[] => segmenter
+  ? Array.from(segmenter.segment(word), part => part.segment)
+  : Array.from(word);
+
+// Canonical form of a target word (no whitespace, upper case where the script has it),
+// or null if nothing usable is left
+export const normalizeTargetWord = (text: string): string | null => {
+  const word = text.normalize('NFC').replace(/\s+/g, '').toLocaleUpperCase();
+  const letters = splitTargetWord(word);
+  if (letters.length === 0 || letters.length > MAX_TARGET_LETTERS) return null;
+  return word;
+};
+
+// Words that fit the palette keep it; longer ones get evenly spread hues, or cycle a colour-blind palette
+export const getLetterColor = (index: number, count: number): string => {
+  const { letters, cycleLetters } = getPalette();
+  if (count <= letters.length || cycleLetters) return letters[index % letters.length];
+  const hue = Math.round(index / count * 360);
+  return `hsl(${hue}, 100%, 60%)`;
+};
+
+// Only Latin letters exist in the 3D font; anything else falls back to flat text
+export const hasExtrudedGlyph = (letter: string) => /^[A-Z0-9]$/.test(letter);
@@ -4,58 +4,35 @@
 */
 
 
-import React, { useState, useEffect } from 'react';
-import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, ArrowUpCircle, Shield, Activity, PlusCircle, Play, Timer, Skull } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, Shield, Play, Pause, Timer, Skull, Film, Download, Upload, X, Ghost, History, Settings, RotateCcw, LogOut } from 'lucide-react';
 import { useStore } from '../../store';
-import { GameStatus, GEMINI_COLORS, ShopItem, RUN_SPEED_BASE, Difficulty } from '../../types';
+import { GameStatus, ShopItem, RUN_SPEED_BASE, Difficulty, OwnedItem, ActivePowerUps, ScoreBreakdown, ScoreSource, StyleBonus } from '../../types';
 import { audio } from '../System/Audio';
-
-// Available Shop Items
-const SHOP_ITEMS: ShopItem[] = [
-    {
-        id: 'DOUBLE_JUMP',
-        name: 'TURBO BOOST',
-        description: 'Double Jump capability to clear high threats.',
-        cost: 1000,
-        icon: ArrowUpCircle,
-        oneTime: true
-    },
-    {
-        id: 'MAX_LIFE',
-        name: 'HULL REINFORCE',
-        description: 'Permanently adds a shield slot and repairs hull.',
-        cost: 1500,
-        icon: Activity
-    },
-    {
-        id: 'HEAL',
-        name: 'REPAIR NANOBOTS',
-        description: 'Restores 1 Shield point instantly.',
-        cost: 1000,
-        icon: PlusCircle
-    },
-    {
-        id: 'IMMORTAL',
-        name: 'PHASE SHIFT',
-        description: 'Ability: Become intangible for 5s (Press Enter).',
-        cost: 3000,
-        icon: Shield,
-        oneTime: true
-    }
-];
+import { SeededRandom, hashSeed, formatSeed, parseSeed } from '../System/Random';
+import { simulation } from '../System/Simulation';
+import { performAction } from '../System/Input';
+import { ITEM_REGISTRY, getItemCost, getModifiers } from '../System/Items';
+import { POWER_UPS, POWER_UP_KINDS } from '../System/PowerUps';
+import { COMBO_WINDOW, SCORE_SOURCES, getComboMultiplier } from '../System/Scoring';
+import { replayPlayer, useRunStore, decodeReplay, downloadReplay } from '../System/Replay';
+import { ghostRacer, getBestGhostSeed } from '../System/Ghost';
+import { runHistory } from '../System/RunHistory';
+import { MAX_LEVEL, getLevelDefinition } from '../System/Levels';
+import { MAX_TARGET_LETTERS, getLetterColor, normalizeTargetWord } from '../System/TargetWord';
+import { RecordsScreen } from './RecordsScreen';
+import { SettingsScreen } from './SettingsScreen';
 
 const ShopScreen: React.FC = () => {
-    const { score, buyItem, closeShop, hasDoubleJump, hasImmortality } = useStore();
+    const { score, inventory, seed, level } = useStore();
     const [items, setItems] = useState<ShopItem[]>([]);
 
     useEffect(() => {
-        let pool = SHOP_ITEMS.filter(item => {
-            if (item.id === 'DOUBLE_JUMP' && hasDoubleJump) return false;
-            if (item.id === 'IMMORTAL' && hasImmortality) return false;
-            return true;
-        });
+        const pool = Object.values(ITEM_REGISTRY).filter(item => getItemCost(item.id, inventory) !== null);
 
-        pool = pool.sort(() => 0.5 - Math.random());
+        // Stock depends only on the run seed and sector, not on what was spawned before
+        const rng = new SeededRandom(hashSeed(`${seed}:shop:${level}`));
+        rng.shuffle(pool);
         setItems(pool.slice(0, 3));
     }, []);
 
@@ -71,20 +48,24 @@ const ShopScreen: React.FC = () => {
                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6 max-w-4xl w-full mb-8">
                      {items.map(item => {
                          const Icon = item.icon;
-                         const canAfford = score >= item.cost;
+                         const cost = getItemCost(item.id, inventory);
+                         const canAfford = cost !== null && score >= cost;
+                         // Upgrades show the tier the next purchase buys
+                         const tier = (inventory[item.id]?.tier ?? 0) + 1;
+                         const showTier = !item.stackable && item.cost.length > 1 && cost !== null;
                          return (
                              <div key={item.id} className="bg-gray-900/80 border border-gray-700 p-4 md:p-6 rounded-xl flex flex-col items-center text-center hover:border-cyan-500 transition-colors">
                                  <div className="bg-gray-800 p-3 md:p-4 rounded-full mb-3 md:mb-4">
                                      <Icon className="w-6 h-6 md:w-8 md:h-8 text-cyan-400" />
                                  </div>
-                                 <h3 className="text-lg md:text-xl font-bold mb-2">{item.name}</h3>
+                                 <h3 className="text-lg md:text-xl font-bold mb-2">{item.name}{showTier && <span className="text-cyan-400"> MK {tier}</span>}</h3>
                                  <p className="text-gray-400 text-xs md:text-sm mb-4 h-10 md:h-12 flex items-center justify-center">{item.description}</p>
                                  <button 
-                                    onClick={() => buyItem(item.id as any, item.cost)}
+                                    onClick={() => { audio.playUiClick(); simulation.purchase(item.id); }}
                                     disabled={!canAfford}
                                     className={`px-4 md:px-6 py-2 rounded font-bold w-full text-sm md:text-base ${canAfford ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110' : 'bg-gray-700 cursor-not-allowed opacity-50'}`}
                                  >
-                                     {item.cost} GEMS
+                                     {cost === null ? 'INSTALLED' : `${cost} GEMS`}
                                  </button>
                              </div>
                          );
@@ -92,7 +73,7 @@ const ShopScreen: React.FC = () => {
                  </div>
 
                  <button 
-                    onClick={closeShop}
+                    onClick={() => simulation.leaveShop()}
                     className="flex items-center px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(255,0,255,0.4)]"
                  >
                      RE-ENTER TIME STREAM <Play className="ml-2 w-5 h-5" fill="white" />
@@ -102,9 +83,283 @@ const ShopScreen: React.FC = () => {
     );
 };
 
+const BossBar: React.FC<{ health: number; maxHealth: number }> = ({ health, maxHealth }) => (
+    <div className="absolute top-36 md:top-40 left-1/2 transform -translate-x-1/2 w-2/3 max-w-md flex flex-col items-center">
+        <div className="flex items-center text-xs md:text-sm font-bold font-cyber tracking-[0.3em] text-fuchsia-400 mb-1 drop-shadow-[0_0_8px_#ff00ff]">
+            <Skull className="w-4 h-4 mr-2" /> YOKAI OVERLORD
+        </div>
+        <div className="w-full h-3 md:h-4 bg-black/80 border border-fuchsia-500/60 rounded-full overflow-hidden">
+            <div
+                className="h-full bg-gradient-to-r from-fuchsia-600 to-red-500 transition-all duration-300"
+                style={{ width: `${(health / maxHealth) * 100}%` }}
+            />
+        </div>
+        <div className="text-[10px] md:text-xs text-gray-400 font-mono tracking-widest mt-1 text-center">
+            GRAB CHARGE GEMS • PHASE SHIFT INTO ITS MISSILES
+        </div>
+    </div>
+);
+
+// Energy gauge that doubles as a fire button on touch screens
+const BlasterButton: React.FC<{ blaster: OwnedItem }> = ({ blaster }) => {
+    const { icon: Icon, activation } = ITEM_REGISTRY.BLASTER;
+    const energy = activation!.energy!;
+    const ready = blaster.cooldown <= 0 && blaster.energy >= energy.cost;
+    return (
+        <button
+            onClick={() => performAction('FIRE')}
+            onTouchEnd={(e) => e.stopPropagation()}
+            className={`pointer-events-auto absolute bottom-40 md:bottom-28 right-4 md:right-8 flex flex-col items-center p-2 md:p-3 rounded-xl bg-black/60 border ${ready ? 'border-emerald-400 text-emerald-300' : 'border-gray-700 text-gray-500'}`}
+        >
+            <Icon className="w-6 h-6 md:w-8 md:h-8" />
+            <div className="w-12 md:w-16 h-1.5 mt-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-400" style={{ width: `${(blaster.energy / energy.max) * 100}%` }} />
+            </div>
+        </button>
+    );
+};
+
+// One badge per running power-up, with a bar that drains as it runs out
+const PowerUpBadges: React.FC<{ powerUps: ActivePowerUps }> = ({ powerUps }) => (
+    <div className="absolute top-16 md:top-20 left-4 md:left-8 flex flex-col space-y-2">
+        {POWER_UP_KINDS.filter(kind => powerUps[kind] !== undefined).map(kind => {
+            const { name, color, icon: Icon, maxDuration } = POWER_UPS[kind];
+            const remaining = powerUps[kind]!;
+            return (
+                <div key={kind} className={`flex items-center px-2 py-1 rounded-lg bg-black/60 border ${remaining < 2 ? 'animate-pulse' : ''}`} style={{ borderColor: color, color }}>
+                    <Icon className="w-4 h-4 md:w-5 md:h-5 mr-2" />
+                    <div className="flex flex-col">
+                        <div className="flex justify-between text-[10px] md:text-xs font-bold font-mono tracking-wider">
+                            <span>{name}</span>
+                            <span className="ml-3">{Math.ceil(remaining)}s</span>
+                        </div>
+                        <div className="w-20 md:w-24 h-1 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                            <div className="h-full" style={{ width: `${(remaining / maxDuration) * 100}%`, backgroundColor: color }} />
+                        </div>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+);
+
+const SCORE_LABELS: Record<ScoreSource, string> = {
+    GEMS: 'GEMS',
+    ENEMIES: 'ENEMIES DESTROYED',
+    NEAR_MISS: 'NEAR MISSES',
+    BARREL_ROLL: 'BARREL ROLLS',
+    PERFECT_LEVEL: 'PERFECT SECTORS',
+    VICTORY: 'VICTORY BONUS'
+};
+
+const STYLE_TOASTS: Record<StyleBonus, string> = {
+    NEAR_MISS: 'NEAR MISS',
+    BARREL_ROLL: 'BARREL ROLL',
+    PERFECT_LEVEL: 'PERFECT SECTOR'
+};
+
+const ComboMeter: React.FC<{ combo: number; comboTime: number }> = ({ combo, comboTime }) => {
+    if (combo < 2) return null;
+    const multiplier = getComboMultiplier(combo);
+    return (
+        <div className="absolute bottom-40 md:bottom-28 left-4 md:left-8 flex flex-col items-start">
+            <div className="flex items-baseline font-cyber font-black text-orange-400 drop-shadow-[0_0_8px_#ff8800]">
+                <span className="text-2xl md:text-4xl">{combo}</span>
+                <span className="text-xs md:text-sm ml-2 tracking-widest">COMBO</span>
+                {multiplier > 1 && <span className="text-sm md:text-lg ml-3 text-yellow-300">{multiplier}X</span>}
+            </div>
+            {/* Drains until the next pickup */}
+            <div className="w-24 md:w-32 h-1 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-orange-400" style={{ width: `${(comboTime / COMBO_WINDOW) * 100}%` }} />
+            </div>
+        </div>
+    );
+};
+
+// Flashes the latest style bonus, picked up from the score breakdown growing
+const StyleToast: React.FC<{ breakdown: ScoreBreakdown }> = ({ breakdown }) => {
+    const previous = useRef(breakdown);
+    const [toast, setToast] = useState<{ label: string; points: number; key: number } | null>(null);
+
+    useEffect(() => {
+        const source = (Object.keys(STYLE_TOASTS) as StyleBonus[]).find(source => breakdown[source] > previous.current[source]);
+        if (source) {
+            setToast({ label: STYLE_TOASTS[source], points: breakdown[source] - previous.current[source], key: Date.now() });
+        }
+        previous.current = breakdown;
+    }, [breakdown]);
+
+    useEffect(() => {
+        if (!toast) return;
+        const timeout = setTimeout(() => setToast(null), 1200);
+        return () => clearTimeout(timeout);
+    }, [toast]);
+
+    if (!toast) return null;
+    return (
+        <div key={toast.key} className="absolute top-1/3 left-1/2 transform -translate-x-1/2 text-center font-cyber font-black text-lg md:text-2xl text-fuchsia-300 drop-shadow-[0_0_10px_#ff00ff] animate-pulse whitespace-nowrap">
+            {toast.label} +{toast.points}
+        </div>
+    );
+};
+
+// Where the run's points came from, shown on the end screens
+const ScoreBreakdownPanel: React.FC<{ breakdown: ScoreBreakdown; spent: number; bestCombo: number }> = ({ breakdown, spent, bestCombo }) => (
+    <div className="w-full max-w-md bg-black/50 border border-gray-700 rounded-lg p-3 md:p-4 mb-4 font-mono text-xs md:text-sm">
+        {SCORE_SOURCES.filter(source => breakdown[source] > 0).map(source => (
+            <div key={source} className="flex justify-between text-gray-300 py-0.5">
+                <span>{SCORE_LABELS[source]}</span>
+                <span className="text-white">+{breakdown[source].toLocaleString()}</span>
+            </div>
+        ))}
+        {spent > 0 && (
+            <div className="flex justify-between text-gray-500 py-0.5">
+                <span>SPENT AT PIT STOPS</span>
+                <span>-{spent.toLocaleString()}</span>
+            </div>
+        )}
+        <div className="flex justify-between text-orange-400 border-t border-gray-700 mt-2 pt-2">
+            <span>BEST COMBO</span>
+            <span>{bestCombo}</span>
+        </div>
+    </div>
+);
+
+const ReplayControls: React.FC = () => {
+    const setStatus = useStore(state => state.setStatus);
+    const [, setRefresh] = useState(0);
+    const refresh = () => setRefresh(n => n + 1);
+
+    // Re-render as the replayed run advances so the scrub bar follows along
+    useRunStore(state => state.timeLeft);
+
+    const total = replayPlayer.replay?.ticks ?? 0;
+    const tick = Math.min(replayPlayer.simulation.tick, total);
+    const buttonClass = "p-2 rounded-full hover:bg-cyan-500/20 text-cyan-300 transition-colors";
+
+    return (
+        <div className="pointer-events-auto flex items-center space-x-2 md:space-x-3 bg-black/70 border border-cyan-500/40 rounded-full px-3 md:px-4 py-1 md:py-2 backdrop-blur-sm">
+            <span className="flex items-center text-red-500 font-bold font-cyber text-xs md:text-sm animate-pulse">
+                <Film className="w-4 h-4 mr-1" /> REPLAY
+            </span>
+            <button
+                onClick={() => { replayPlayer.paused = !replayPlayer.paused; refresh(); }}
+                className={buttonClass}
+            >
+                {replayPlayer.paused ? <Play className="w-4 h-4 md:w-5 md:h-5" /> : <Pause className="w-4 h-4 md:w-5 md:h-5" />}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={total}
+                value={tick}
+                onChange={(e) => { replayPlayer.seek(Number(e.target.value)); refresh(); }}
+                className="w-32 md:w-64 accent-cyan-400"
+            />
+            <button
+                onClick={() => { replayPlayer.playbackRate = replayPlayer.playbackRate === 1 ? 2 : 1; refresh(); }}
+                className={`${buttonClass} font-mono font-bold text-sm w-10`}
+            >
+                {replayPlayer.playbackRate}x
+            </button>
+            <button onClick={() => replayPlayer.replay && downloadReplay(replayPlayer.replay)} className={buttonClass}>
+                <Download className="w-4 h-4 md:w-5 md:h-5" />
+            </button>
+            <button onClick={() => setStatus(GameStatus.MENU)} className={buttonClass}>
+                <X className="w-4 h-4 md:w-5 md:h-5" />
+            </button>
+        </div>
+    );
+};
+
+const PauseScreen: React.FC<{ onSettings: () => void }> = ({ onSettings }) => {
+    const { resumeGame, restartGame, setStatus } = useStore();
+    const buttonClass = "w-full flex items-center justify-center px-6 py-3 rounded-lg font-bold tracking-widest transition-all";
+
+    return (
+        <div className="absolute inset-0 bg-black/80 z-[100] text-white pointer-events-auto backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="flex flex-col items-center max-w-xs w-full space-y-3">
+                <h1 className="text-4xl md:text-5xl font-black text-cyan-400 font-cyber tracking-widest mb-6 drop-shadow-[0_0_15px_rgba(0,255,255,0.6)]">PAUSED</h1>
+                <button onClick={resumeGame} className={`${buttonClass} bg-gradient-to-r from-cyan-500 to-blue-600 hover:scale-105 shadow-[0_0_20px_rgba(0,255,255,0.4)]`}>
+                    <Play className="w-5 h-5 mr-2 fill-white" /> RESUME
+                </button>
+                <button onClick={() => { audio.init(); restartGame(); }} className={`${buttonClass} bg-gray-800 hover:bg-gray-700`}>
+                    <RotateCcw className="w-5 h-5 mr-2" /> RESTART
+                </button>
+                <button onClick={onSettings} className={`${buttonClass} bg-gray-800 hover:bg-gray-700`}>
+                    <Settings className="w-5 h-5 mr-2" /> SETTINGS
+                </button>
+                <button onClick={() => setStatus(GameStatus.MENU)} className={`${buttonClass} bg-gray-900 text-red-400 hover:bg-red-900/40`}>
+                    <LogOut className="w-5 h-5 mr-2" /> QUIT TO MENU
+                </button>
+            </div>
+        </div>
+    );
+};
+
 export const HUD: React.FC = () => {
-  const { score, lives, maxLives, collectedLetters, status, level, restartGame, startGame, gemsCollected, distance, isImmortalityActive, timeLeft, maxTime } = useStore();
-  const target = ['G', 'E', 'M', 'I', 'N', 'I'];
+  const { status, restartGame, startGame, setStatus, seed, customWord } = useStore();
+  // In-run readouts show the replayed run while watching a replay
+  const { score, lives, maxLives, collectedLetters, targetLetters, level, distance, timeLeft, boss, inventory, powerUps, combo, comboTime, bestCombo, scoreBreakdown, creditsSpent } = useRunStore(state => state);
+  const isImmortalityActive = getModifiers({ inventory, powerUps }).invulnerable;
+  const isOrdered = getLevelDefinition(level).letterMode === 'ORDERED';
+  const [seedInput, setSeedInput] = useState('');
+  const [wordInput, setWordInput] = useState('');
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [showRecords, setShowRecords] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+
+  // Empty seed => fresh random seed, empty word => the levels' own words
+  const customWordInput = normalizeTargetWord(wordInput);
+  const start = (diff: Difficulty) => {
+      audio.init();
+      startGame(diff, parseSeed(seedInput) ?? undefined, { targetWord: customWordInput ?? undefined });
+  };
+
+  const ghostDifficulties = status === GameStatus.MENU
+      ? Object.values(Difficulty).filter(diff => getBestGhostSeed(diff) !== null)
+      : [];
+
+  const watchReplay = () => {
+      replayPlayer.load(simulation.getReplay());
+      setStatus(GameStatus.REPLAY);
+  };
+
+  const loadReplayFile = async (file: File) => {
+      try {
+          replayPlayer.load(decodeReplay(await file.text()));
+          setReplayError(null);
+          audio.init();
+          setStatus(GameStatus.REPLAY);
+      } catch (err) {
+          setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+      }
+  };
+
+  const lastRank = runHistory.lastRun ? runHistory.getRank(runHistory.lastRun) : null;
+  const rankBadge = lastRank !== null && (
+      <div className="text-sm md:text-base font-bold font-cyber text-yellow-300 tracking-widest mb-4 animate-pulse">
+          {lastRank === 1 ? 'NEW HIGH SCORE!' : `LEADERBOARD RANK #${lastRank}`}
+      </div>
+  );
+
+  const replayButtons = (
+      <div className="flex space-x-3 mt-4">
+          <button
+            onClick={watchReplay}
+            className="flex items-center px-4 py-2 border border-gray-600 text-gray-300 text-sm font-bold rounded hover:border-cyan-400 hover:text-cyan-300 transition-colors"
+          >
+              <Film className="w-4 h-4 mr-2" /> WATCH REPLAY
+          </button>
+          <button
+            onClick={() => downloadReplay(simulation.getReplay())}
+            className="flex items-center px-4 py-2 border border-gray-600 text-gray-300 text-sm font-bold rounded hover:border-cyan-400 hover:text-cyan-300 transition-colors"
+          >
+              <Download className="w-4 h-4 mr-2" /> EXPORT
+          </button>
+      </div>
+  );
 
   const containerClass = "absolute inset-0 pointer-events-none flex flex-col justify-between p-4 md:p-8 z-50";
 
@@ -112,7 +367,21 @@ export const HUD: React.FC = () => {
       return <ShopScreen />;
   }
 
+  if (status === GameStatus.PAUSED) {
+      if (showSettings) {
+          return <SettingsScreen onClose={() => setShowSettings(false)} />;
+      }
+      return <PauseScreen onSettings={() => setShowSettings(true)} />;
+  }
+
   if (status === GameStatus.MENU) {
+      if (showSettings) {
+          return <SettingsScreen onClose={() => setShowSettings(false)} />;
+      }
+      if (showRecords) {
+          return <RecordsScreen onClose={() => setShowRecords(false)} />;
+      }
+
       return (
           <div className="absolute inset-0 flex items-center justify-center z-[100] bg-black/95 p-4 pointer-events-auto">
               <div className="flex flex-col items-center max-w-md w-full text-center space-y-6">
@@ -126,7 +395,7 @@ export const HUD: React.FC = () => {
 
                 <div className="grid gap-4 w-full">
                     <button 
-                        onClick={() => { audio.init(); startGame(Difficulty.EASY); }}
+                        onClick={() => start(Difficulty.EASY)}
                         className="p-4 rounded-xl bg-green-900/40 border border-green-500/50 hover:bg-green-500/20 hover:border-green-400 transition-all group"
                     >
                         <div className="text-xl font-bold text-green-400 group-hover:text-green-300">BEGINNER</div>
@@ -134,7 +403,7 @@ export const HUD: React.FC = () => {
                     </button>
 
                     <button 
-                        onClick={() => { audio.init(); startGame(Difficulty.MEDIUM); }}
+                        onClick={() => start(Difficulty.MEDIUM)}
                         className="p-4 rounded-xl bg-blue-900/40 border border-blue-500/50 hover:bg-blue-500/20 hover:border-blue-400 transition-all group"
                     >
                         <div className="text-xl font-bold text-blue-400 group-hover:text-blue-300">INTERMEDIATE</div>
@@ -142,13 +411,81 @@ export const HUD: React.FC = () => {
                     </button>
 
                     <button 
-                        onClick={() => { audio.init(); startGame(Difficulty.HARD); }}
+                        onClick={() => start(Difficulty.HARD)}
                         className="p-4 rounded-xl bg-red-900/40 border border-red-500/50 hover:bg-red-500/20 hover:border-red-400 transition-all group"
                     >
                         <div className="text-xl font-bold text-red-400 group-hover:text-red-300">ADVANCED</div>
                         <div className="text-xs text-gray-400">Hyper Speed • 45s Timer • 5 Lanes</div>
                     </button>
                 </div>
+
+                <input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    placeholder="RUN SEED (OPTIONAL)"
+                    maxLength={24}
+                    className="w-full p-3 rounded-lg bg-gray-900/80 border border-gray-700 text-center text-white font-mono tracking-widest uppercase placeholder-gray-600 focus:outline-none focus:border-cyan-500"
+                />
+
+                <input
+                    value={wordInput}
+                    onChange={(e) => setWordInput(e.target.value)}
+                    placeholder="TARGET WORD (OPTIONAL)"
+                    className={`w-full p-3 rounded-lg bg-gray-900/80 border text-center text-white font-mono tracking-widest uppercase placeholder-gray-600 focus:outline-none ${wordInput.trim() && !customWordInput ? 'border-red-500' : 'border-gray-700 focus:border-cyan-500'}`}
+                />
+                {wordInput.trim() && !customWordInput && (
+                    <div className="text-xs text-red-400 font-mono -mt-2">UP TO {MAX_TARGET_LETTERS} LETTERS</div>
+                )}
+
+                {ghostDifficulties.length > 0 && (
+                    <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+                        <span className="flex items-center text-cyan-300 font-bold tracking-wider">
+                            <Ghost className="w-4 h-4 mr-1" /> RACE YOUR BEST:
+                        </span>
+                        {ghostDifficulties.map(diff => (
+                            <button
+                                key={diff}
+                                onClick={() => { audio.init(); startGame(diff, getBestGhostSeed(diff)!); }}
+                                className="px-3 py-1 rounded-full border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 transition-colors"
+                            >
+                                {diff}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex space-x-6">
+                    <button
+                        onClick={() => setShowRecords(true)}
+                        className="flex items-center text-gray-400 text-sm hover:text-cyan-300 transition-colors"
+                    >
+                        <History className="w-4 h-4 mr-2" /> RECORDS
+                    </button>
+                    <button
+                        onClick={() => setShowSettings(true)}
+                        className="flex items-center text-gray-400 text-sm hover:text-cyan-300 transition-colors"
+                    >
+                        <Settings className="w-4 h-4 mr-2" /> SETTINGS
+                    </button>
+                    <button
+                        onClick={() => replayFileRef.current?.click()}
+                        className="flex items-center text-gray-400 text-sm hover:text-cyan-300 transition-colors"
+                    >
+                        <Upload className="w-4 h-4 mr-2" /> LOAD REPLAY
+                    </button>
+                </div>
+                <input
+                    ref={replayFileRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) loadReplayFile(file);
+                        e.target.value = '';
+                    }}
+                />
+                {replayError && <div className="text-red-500 text-xs font-mono">{replayError}</div>}
               </div>
           </div>
       );
@@ -170,12 +507,18 @@ export const HUD: React.FC = () => {
                     </div>
                 </div>
 
+                <ScoreBreakdownPanel breakdown={scoreBreakdown} spent={creditsSpent} bestCombo={bestCombo} />
+
+                {rankBadge}
+                <div className="text-xs md:text-sm text-gray-500 font-mono tracking-widest mb-6">SEED {formatSeed(seed)}{customWord && ` • WORD ${customWord}`}</div>
+
                 <button 
                   onClick={() => { audio.init(); restartGame(); }}
                   className="px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(0,255,255,0.4)]"
                 >
                     TRY AGAIN
                 </button>
+                {replayButtons}
               </div>
           </div>
       );
@@ -193,17 +536,24 @@ export const HUD: React.FC = () => {
                     YOU HAVE REACHED THE END OF TIME
                 </p>
                 
-                <div className="bg-black/60 p-6 rounded-xl border border-yellow-500/30 shadow-[0_0_15px_rgba(255,215,0,0.1)] mb-8">
+                <div className="bg-black/60 p-6 rounded-xl border border-yellow-500/30 shadow-[0_0_15px_rgba(255,215,0,0.1)] mb-4">
                     <div className="text-xs md:text-sm text-gray-400 mb-1 tracking-wider text-center">FINAL SCORE</div>
                     <div className="text-3xl md:text-4xl font-bold font-cyber text-yellow-400">{score.toLocaleString()}</div>
                 </div>
 
+                <ScoreBreakdownPanel breakdown={scoreBreakdown} spent={creditsSpent} bestCombo={bestCombo} />
+
+                {rankBadge}
+                <div className="text-xs md:text-sm text-gray-500 font-mono tracking-widest mb-6">SEED {formatSeed(seed)}{customWord && ` • WORD ${customWord}`}</div>
+
+
                 <button 
                   onClick={() => { audio.init(); restartGame(); }}
                   className="px-8 md:px-12 py-4 md:py-5 bg-white text-black font-black text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_40px_rgba(255,255,255,0.3)] tracking-widest"
                 >
                     PLAY AGAIN
                 </button>
+                {replayButtons}
             </div>
         </div>
     );
@@ -213,7 +563,17 @@ export const HUD: React.FC = () => {
     <div className={containerClass}>
         {/* Top Bar */}
         <div className="flex justify-between items-start w-full">
-            <div className="flex flex-col">
+            <div className="flex items-center">
+                {status === GameStatus.PLAYING && (
+                    // Touch devices have no pause key; stop the tap from also reaching the swipe controls
+                    <button
+                        onClick={() => useStore.getState().pauseGame()}
+                        onTouchEnd={(e) => e.stopPropagation()}
+                        className="pointer-events-auto mr-3 p-2 rounded-full bg-black/50 border border-gray-700 text-gray-300 hover:text-white"
+                    >
+                        <Pause className="w-4 h-4 md:w-5 md:h-5" />
+                    </button>
+                )}
                 <div className="text-3xl md:text-5xl font-bold text-cyan-400 drop-shadow-[0_0_10px_#00ffff] font-cyber">
                     {score.toLocaleString()}
                 </div>
@@ -238,34 +598,56 @@ export const HUD: React.FC = () => {
              <div className="text-xs text-gray-400 tracking-[0.2em] mt-1">TIME REMAINING</div>
         </div>
 
+        {/* Ghost Delta */}
+        {status === GameStatus.PLAYING && ghostRacer.active && (
+            <div className={`absolute top-16 md:top-20 right-4 md:right-8 flex items-center font-mono font-bold text-sm md:text-lg ${ghostRacer.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                <Ghost className="w-4 h-4 md:w-5 md:h-5 mr-2 text-cyan-300" />
+                {ghostRacer.delta >= 0 ? '+' : '-'}{Math.abs(Math.round(ghostRacer.delta))} m
+            </div>
+        )}
+
         {/* Level Indicator */}
         <div className="absolute top-24 md:top-28 left-1/2 transform -translate-x-1/2 text-sm md:text-lg text-purple-300 font-bold tracking-wider font-mono bg-black/50 px-3 py-1 rounded-full border border-purple-500/30 backdrop-blur-sm z-50">
-            SECTOR {level} <span className="text-gray-500 text-xs md:text-sm">/ 3</span>
+            SECTOR {level} <span className="text-gray-500 text-xs md:text-sm">/ {MAX_LEVEL}</span>
         </div>
 
+        {boss && <BossBar health={boss.health} maxHealth={boss.maxHealth} />}
+
+        <PowerUpBadges powerUps={powerUps} />
+        <ComboMeter combo={combo} comboTime={comboTime} />
+        <StyleToast breakdown={scoreBreakdown} />
+
+        {status === GameStatus.PLAYING && inventory.BLASTER && <BlasterButton blaster={inventory.BLASTER} />}
+
         {/* Active Skill Indicator */}
         {isImmortalityActive && (
-             <div className="absolute top-36 left-1/2 transform -translate-x-1/2 text-yellow-400 font-bold text-xl md:text-2xl animate-pulse flex items-center drop-shadow-[0_0_10px_gold]">
+             <div className={`absolute ${boss ? 'top-56 md:top-60' : 'top-36'} left-1/2 transform -translate-x-1/2 text-yellow-400 font-bold text-xl md:text-2xl animate-pulse flex items-center drop-shadow-[0_0_10px_gold]`}>
                  <Shield className="mr-2 fill-yellow-400" /> PHASE SHIFT
              </div>
         )}
 
         {/* Gemini Collection Status - Just below Timer */}
-        <div className="absolute bottom-24 md:bottom-12 left-1/2 transform -translate-x-1/2 flex space-x-2 md:space-x-3">
-            {target.map((char, idx) => {
+        <div className={`absolute bottom-24 md:bottom-12 left-1/2 transform -translate-x-1/2 flex ${targetLetters.length > 8 ? 'space-x-1 md:space-x-2' : 'space-x-2 md:space-x-3'}`}>
+            {isOrdered && (
+                <div className="absolute -top-5 left-1/2 transform -translate-x-1/2 text-[10px] md:text-xs text-yellow-300 font-mono tracking-widest whitespace-nowrap">
+                    SPELL IN ORDER
+                </div>
+            )}
+            {targetLetters.map((char, idx) => {
                 const isCollected = collectedLetters.includes(idx);
-                const color = GEMINI_COLORS[idx];
+                const isNext = isOrdered && idx === collectedLetters.length;
+                const color = getLetterColor(idx, targetLetters.length);
 
                 return (
                     <div 
                         key={idx}
                         style={{
-                            borderColor: isCollected ? color : 'rgba(55, 65, 81, 1)',
-                            color: isCollected ? '#000' : 'rgba(55, 65, 81, 1)',
+                            borderColor: isCollected || isNext ? color : 'rgba(55, 65, 81, 1)',
+                            color: isCollected ? '#000' : isNext ? color : 'rgba(55, 65, 81, 1)',
                             boxShadow: isCollected ? `0 0 20px ${color}` : 'none',
                             backgroundColor: isCollected ? color : 'rgba(0, 0, 0, 0.9)'
                         }}
-                        className={`w-8 h-10 md:w-10 md:h-12 flex items-center justify-center border-2 font-black text-lg md:text-xl font-cyber rounded-lg transform transition-all duration-300`}
+                        className={`${targetLetters.length > 8 ? 'w-6 h-8 md:w-8 md:h-10 text-sm md:text-lg' : 'w-8 h-10 md:w-10 md:h-12 text-lg md:text-xl'} flex items-center justify-center border-2 font-black font-cyber rounded-lg transform transition-all duration-300 ${isNext ? 'animate-pulse' : ''}`}
                     >
                         {char}
                     </div>
@@ -274,6 +656,11 @@ export const HUD: React.FC = () => {
         </div>
 
         {/* Bottom Overlay */}
+        {status === GameStatus.REPLAY && (
+            <div className="absolute top-20 md:top-24 left-4 md:left-8">
+                <ReplayControls />
+            </div>
+        )}
         <div className="w-full flex justify-between items-end">
              <div className="flex items-center space-x-2 text-purple-400 opacity-70">
                  <MapPin className="w-4 h-4" />
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useState } from 'react';
+import { useSettings } from '../../settings';
+import { frameStats, useQuality } from '../System/Quality';
+
+const POLL_MS = 250;
+
+// Frame budget colouring: green at 60 fps, yellow down to 30, red below
+const fpsColor = (fps: number) => fps >= 55 ? 'text-green-400' : fps >= 30 ? 'text-yellow-300' : 'text-red-400';
+
+export const PerfOverlay: React.FC = () => {
+    const show = useSettings(state => state.showPerfOverlay);
+    const chosen = useSettings(state => state.quality);
+    const preset = useQuality(state => state.preset);
+    const [stats, setStats] = useState({ ...frameStats });
+
+    // The numbers change every frame; a few refreshes a second is plenty to read them
+    useEffect(() => {
+        if (!show) return;
+        const timer = setInterval(() => setStats({ ...frameStats }), POLL_MS);
+        return () => clearInterval(timer);
+    }, [show]);
+
+    if (!show) return null;
+
+    return (
+        <div className="absolute bottom-2 left-2 z-[200] pointer-events-none bg-black/70 border border-gray-700 rounded px-2 py-1 font-mono text-[10px] md:text-xs text-gray-300 leading-tight">
+            <div className={`font-bold ${fpsColor(stats.fps)}`}>{Math.round(stats.fps)} FPS</div>
+            <div>{(stats.frameTime * 1000).toFixed(1)} ms</div>
+            <div>{stats.drawCalls} draws · {(stats.triangles / 1000).toFixed(1)}k tris</div>
+            <div>{stats.entities} entities</div>
+            <div className="text-cyan-300">
+                {preset}{preset !== chosen && <span className="text-yellow-300"> (AUTO, MAX {chosen})</span>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useMemo, useState } from 'react';
+import { Trophy, History, X } from 'lucide-react';
+import { Difficulty, ObjectType } from '../../types';
+import { runHistory, getRunStats, isStandardRun, RunRecord } from '../System/RunHistory';
+
+type RecordsTab = Difficulty | 'HISTORY';
+
+const HISTORY_PREVIEW = 25;
+
+const CAUSE_LABELS: Record<string, string> = {
+    TIME: 'TIME EXPIRED',
+    [ObjectType.FLOWER]: 'MAN-EATER',
+    [ObjectType.MONSTER]: 'YOKAI',
+    [ObjectType.MISSILE]: 'MISSILE',
+    [ObjectType.OBSTACLE]: 'DEBRIS'
+};
+
+const formatCause = (run: RunRecord) => {
+    if (run.victory) return 'VICTORY';
+    return run.causeOfDeath ? (CAUSE_LABELS[run.causeOfDeath] ?? run.causeOfDeath) : 'UNKNOWN';
+};
+
+const formatDate = (date: number) => new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="bg-gray-900/80 border border-gray-700 rounded-lg p-3 text-center">
+        <div className="text-lg md:text-2xl font-bold font-cyber text-cyan-300">{value}</div>
+        <div className="text-[10px] md:text-xs text-gray-500 tracking-widest">{label}</div>
+    </div>
+);
+
+const RunRow: React.FC<{ run: RunRecord; rank?: number; highlight?: boolean }> = ({ run, rank, highlight }) => (
+    <tr className={`border-b border-gray-800 ${highlight ? 'bg-cyan-900/30' : ''}`}>
+        {rank !== undefined && <td className="py-2 pr-2 font-bold text-yellow-400">#{rank}</td>}
+        <td className="py-2 pr-2 font-bold text-white">{run.score.toLocaleString()}</td>
+        <td className="py-2 pr-2 hidden md:table-cell">{run.distance} LY</td>
+        <td className="py-2 pr-2 hidden md:table-cell">{run.gems}</td>
+        <td className="py-2 pr-2">S{run.level}{run.targetWord && <span className="text-purple-300"> · {run.targetWord}</span>}</td>
+        <td className="py-2 pr-2 hidden md:table-cell">{Math.ceil(run.timeLeft)}s</td>
+        <td className={`py-2 pr-2 ${run.victory ? 'text-green-400' : 'text-red-400'}`}>{formatCause(run)}</td>
+        <td className="py-2 text-gray-500">{formatDate(run.date)}</td>
+    </tr>
+);
+
+export const RecordsScreen: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [tab, setTab] = useState<RecordsTab>(Difficulty.EASY);
+    const runs = useMemo(() => runHistory.getRuns(), []);
+    const stats = useMemo(() => getRunStats(runs.filter(isStandardRun)), [runs]);
+    const lastId = runHistory.lastRun?.id;
+
+    const tabs: RecordsTab[] = [...Object.values(Difficulty), 'HISTORY'];
+
+    return (
+        <div className="absolute inset-0 bg-black/95 z-[110] text-white pointer-events-auto overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4 max-w-3xl mx-auto">
+                <div className="flex items-center justify-between w-full mb-6">
+                    <h2 className="text-2xl md:text-4xl font-black text-cyan-400 font-cyber tracking-widest">RECORDS</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 w-full mb-6">
+                    {tabs.map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setTab(t)}
+                            className={`flex items-center px-3 py-2 rounded text-xs md:text-sm font-bold tracking-wider transition-colors ${tab === t ? 'bg-cyan-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}
+                        >
+                            {t === 'HISTORY' ? <History className="w-4 h-4 mr-1" /> : <Trophy className="w-4 h-4 mr-1" />}
+                            {t}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'HISTORY' ? (
+                    <div className="w-full">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                            <StatCard label="RUNS" value={stats.runs.toLocaleString()} />
+                            <StatCard label="VICTORIES" value={stats.victories.toLocaleString()} />
+                            <StatCard label="BEST SCORE" value={stats.bestScore.toLocaleString()} />
+                            <StatCard label="AVG SCORE" value={stats.averageScore.toLocaleString()} />
+                            <StatCard label="TOTAL LY" value={stats.totalDistance.toLocaleString()} />
+                            <StatCard label="TOTAL GEMS" value={stats.totalGems.toLocaleString()} />
+                            <StatCard label="WIN RATE" value={stats.runs > 0 ? `${Math.round(stats.victories / stats.runs * 100)}%` : '-'} />
+                            <StatCard label="NEMESIS" value={stats.commonCause ? (CAUSE_LABELS[stats.commonCause] ?? stats.commonCause) : '-'} />
+                        </div>
+                        <RunTable runs={runs.slice(0, HISTORY_PREVIEW)} lastId={lastId} />
+                    </div>
+                ) : (
+                    <RunTable runs={runHistory.getLeaderboard(tab)} lastId={lastId} ranked />
+                )}
+            </div>
+        </div>
+    );
+};
+
+const RunTable: React.FC<{ runs: RunRecord[]; lastId?: string; ranked?: boolean }> = ({ runs, lastId, ranked }) => {
+    if (runs.length === 0) {
+        return <div className="text-gray-500 font-mono py-12">NO RUNS RECORDED YET</div>;
+    }
+
+    return (
+        <table className="w-full text-left text-xs md:text-sm font-mono text-gray-300">
+            <thead className="text-gray-500 tracking-wider">
+                <tr className="border-b border-gray-700">
+                    {ranked && <th className="py-2 pr-2">RANK</th>}
+                    <th className="py-2 pr-2">SCORE</th>
+                    <th className="py-2 pr-2 hidden md:table-cell">DIST</th>
+                    <th className="py-2 pr-2 hidden md:table-cell">GEMS</th>
+                    <th className="py-2 pr-2">SECTOR</th>
+                    <th className="py-2 pr-2 hidden md:table-cell">TIME LEFT</th>
+                    <th className="py-2 pr-2">RESULT</th>
+                    <th className="py-2">DATE</th>
+                </tr>
+            </thead>
+            <tbody>
+                {runs.map((run, i) => (
+                    <RunRow key={run.id} run={run} rank={ranked ? i + 1 : undefined} highlight={run.id === lastId} />
+                ))}
+            </tbody>
+        </table>
+    );
+};
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard, RotateCcw, Volume2, VolumeX, X } from 'lucide-react';
+import { BLOOM_STRENGTH_RANGE, FOV_RANGE, InputAction, INPUT_ACTIONS, QUALITY_PRESETS, SWIPE_DISTANCE_RANGE, useSettings } from '../../settings';
+import { ACTION_LABELS, formatButton, formatKey } from '../System/Input';
+import { gamepad } from '../System/Gamepad';
+import { audio as audioController } from '../System/Audio';
+
+type Listening = { action: InputAction; device: 'KEY' | 'BUTTON' } | null;
+
+const VOLUME_SLIDERS: { key: 'master' | 'music' | 'sfx' | 'ui'; label: string }[] = [
+    { key: 'master', label: 'MASTER' },
+    { key: 'music', label: 'MUSIC' },
+    { key: 'sfx', label: 'EFFECTS' },
+    { key: 'ui', label: 'INTERFACE' }
+];
+
+const Chip: React.FC<{ label: string }> = ({ label }) => (
+    <span className="px-2 py-1 rounded bg-gray-800 border border-gray-600 text-white text-xs font-mono">{label}</span>
+);
+
+const Toggle: React.FC<{ label: string; hint?: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, hint, checked, onChange }) => (
+    <label className="w-full flex items-center justify-between text-sm cursor-pointer">
+        <span className="font-bold tracking-widest text-gray-300">
+            {label}
+            {hint && <span className="block text-[10px] text-gray-500 font-normal tracking-normal">{hint}</span>}
+        </span>
+        <input
+            type="checkbox"
+            checked={checked}
+            onChange={(e) => onChange(e.target.checked)}
+            className="w-5 h-5 accent-cyan-400"
+        />
+    </label>
+);
+
+const Slider: React.FC<{
+    label: string;
+    value: number;
+    display: string;
+    range: { min: number; max: number };
+    step: number;
+    onChange: (value: number) => void;
+}> = ({ label, value, display, range, step, onChange }) => (
+    <label className="block w-full text-sm">
+        <div className="flex justify-between text-gray-300 mb-1">
+            <span className="font-bold tracking-widest">{label}</span>
+            <span className="font-mono text-cyan-300">{display}</span>
+        </div>
+        <input
+            type="range"
+            min={range.min}
+            max={range.max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full accent-cyan-400"
+        />
+    </label>
+);
+
+const BindingRow: React.FC<{ action: InputAction; listening: Listening; onListen: (next: Listening) => void }> = ({ action, listening, onListen }) => {
+    const { controls, unbind } = useSettings();
+    const isListening = listening?.action === action;
+
+    return (
+        <tr className="border-b border-gray-800">
+            <td className="py-3 pr-2 font-bold text-cyan-300 whitespace-nowrap">{ACTION_LABELS[action]}</td>
+            <td className="py-3 pr-2">
+                <div className="flex flex-wrap gap-1 items-center">
+                    {controls.keys[action].map(code => <Chip key={code} label={formatKey(code)} />)}
+                    <button
+                        onClick={() => onListen(isListening && listening?.device === 'KEY' ? null : { action, device: 'KEY' })}
+                        className={`p-1 rounded ${isListening && listening?.device === 'KEY' ? 'bg-yellow-500 text-black animate-pulse' : 'text-gray-400 hover:text-white'}`}
+                        title="Add key"
+                    >
+                        <Keyboard className="w-4 h-4" />
+                    </button>
+                </div>
+            </td>
+            <td className="py-3 pr-2">
+                <div className="flex flex-wrap gap-1 items-center">
+                    {controls.buttons[action].map(button => <Chip key={button} label={formatButton(button)} />)}
+                    <button
+                        onClick={() => onListen(isListening && listening?.device === 'BUTTON' ? null : { action, device: 'BUTTON' })}
+                        className={`p-1 rounded ${isListening && listening?.device === 'BUTTON' ? 'bg-yellow-500 text-black animate-pulse' : 'text-gray-400 hover:text-white'}`}
+                        title="Add gamepad button"
+                    >
+                        <Gamepad2 className="w-4 h-4" />
+                    </button>
+                </div>
+            </td>
+            <td className="py-3 text-right">
+                <button onClick={() => unbind(action)} className="text-xs text-gray-500 hover:text-red-400">CLEAR</button>
+            </td>
+        </tr>
+    );
+};
+
+export const SettingsScreen: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const {
+        swipeDistance, setSwipeDistance, showColliders, setShowColliders, quality, setQuality,
+        adaptiveQuality, setAdaptiveQuality, showPerfOverlay, setShowPerfOverlay, graphics, setGraphics, resetGraphics,
+        audio, setAudio, bindKey, bindButton, resetControls
+    } = useSettings();
+    const [listening, setListening] = useState<Listening>(null);
+
+    // While listening, the next key or pad button becomes the binding instead of reaching the game
+    useEffect(() => {
+        if (!listening) return;
+
+        if (listening.device === 'BUTTON') {
+            gamepad.captureNextButton(button => {
+                bindButton(listening.action, button);
+                setListening(null);
+            });
+            return () => gamepad.captureNextButton(null);
+        }
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            bindKey(listening.action, e.code);
+            setListening(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, { capture: true });
+        return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+    }, [listening, bindKey, bindButton]);
+
+    return (
+        <div className="absolute inset-0 bg-black/95 z-[110] text-white pointer-events-auto overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4 max-w-3xl mx-auto">
+                <div className="flex items-center justify-between w-full mb-6">
+                    <h2 className="text-2xl md:text-4xl font-black text-cyan-400 font-cyber tracking-widest">SETTINGS</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex items-center justify-between w-full mb-2">
+                    <h3 className="text-sm md:text-base font-bold tracking-widest text-gray-300">CONTROLS</h3>
+                    <button onClick={resetControls} className="flex items-center text-xs text-gray-400 hover:text-cyan-300">
+                        <RotateCcw className="w-3 h-3 mr-1" /> DEFAULTS
+                    </button>
+                </div>
+
+                <table className="w-full text-left text-xs md:text-sm text-gray-300 mb-2">
+                    <thead className="text-gray-500 tracking-wider">
+                        <tr className="border-b border-gray-700">
+                            <th className="py-2 pr-2">ACTION</th>
+                            <th className="py-2 pr-2">KEYBOARD</th>
+                            <th className="py-2 pr-2">GAMEPAD</th>
+                            <th className="py-2" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {INPUT_ACTIONS.map(action => (
+                            <BindingRow key={action} action={action} listening={listening} onListen={setListening} />
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="w-full h-5 text-xs font-mono text-yellow-300 mb-4">
+                    {listening && (listening.device === 'KEY' ? 'PRESS A KEY…' : 'PRESS A GAMEPAD BUTTON…')}
+                </div>
+
+                <label className="w-full text-sm">
+                    <div className="flex justify-between text-gray-300 mb-2">
+                        <span className="font-bold tracking-widest">SWIPE DISTANCE</span>
+                        <span className="font-mono text-cyan-300">{swipeDistance}px</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={SWIPE_DISTANCE_RANGE.min}
+                        max={SWIPE_DISTANCE_RANGE.max}
+                        value={swipeDistance}
+                        onChange={(e) => setSwipeDistance(Number(e.target.value))}
+                        className="w-full accent-cyan-400"
+                    />
+                    <div className="flex justify-between text-[10px] text-gray-500 tracking-widest">
+                        <span>SENSITIVE</span>
+                        <span>RELAXED</span>
+                    </div>
+                </label>
+
+                <div className="flex items-center justify-between w-full mt-8 mb-2">
+                    <h3 className="text-sm md:text-base font-bold tracking-widest text-gray-300">AUDIO</h3>
+                    <button
+                        onClick={() => setAudio({ muted: !audio.muted })}
+                        className={`flex items-center text-xs font-bold ${audio.muted ? 'text-red-400' : 'text-gray-400 hover:text-cyan-300'}`}
+                    >
+                        {audio.muted ? <VolumeX className="w-4 h-4 mr-1" /> : <Volume2 className="w-4 h-4 mr-1" />}
+                        {audio.muted ? 'MUTED' : 'MUTE'}
+                    </button>
+                </div>
+                <div className={`w-full space-y-3 ${audio.muted ? 'opacity-50' : ''}`}>
+                    {VOLUME_SLIDERS.map(({ key, label }) => (
+                        <Slider
+                            key={key}
+                            label={label}
+                            value={audio[key]}
+                            display={`${Math.round(audio[key] * 100)}%`}
+                            range={{ min: 0, max: 1 }}
+                            step={0.05}
+                            // A tick on the UI bus lets the player hear where the level landed
+                            onChange={(volume) => { setAudio({ [key]: volume }); audioController.playUiClick(); }}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between w-full mt-8 mb-2">
+                    <h3 className="text-sm md:text-base font-bold tracking-widest text-gray-300">GRAPHICS</h3>
+                    <button onClick={resetGraphics} className="flex items-center text-xs text-gray-400 hover:text-cyan-300">
+                        <RotateCcw className="w-3 h-3 mr-1" /> DEFAULTS
+                    </button>
+                </div>
+                <div className="w-full grid grid-cols-4 gap-2 mb-3">
+                    {QUALITY_PRESETS.map(preset => (
+                        <button
+                            key={preset}
+                            onClick={() => setQuality(preset)}
+                            className={`py-2 rounded text-xs md:text-sm font-bold tracking-widest border ${quality === preset ? 'bg-cyan-500 text-black border-cyan-400' : 'border-gray-600 text-gray-300 hover:border-cyan-400'}`}
+                        >
+                            {preset}
+                        </button>
+                    ))}
+                </div>
+                <div className="w-full space-y-3">
+                    <Toggle label="ADAPTIVE QUALITY" hint="Drops below the preset when frames run slow" checked={adaptiveQuality} onChange={setAdaptiveQuality} />
+                    <Toggle label="BLOOM" checked={graphics.bloom} onChange={(bloom) => setGraphics({ bloom })} />
+                    {graphics.bloom && (
+                        <Slider
+                            label="BLOOM STRENGTH"
+                            value={graphics.bloomStrength}
+                            display={`${Math.round(graphics.bloomStrength * 100)}%`}
+                            range={BLOOM_STRENGTH_RANGE}
+                            step={0.05}
+                            onChange={(bloomStrength) => setGraphics({ bloomStrength })}
+                        />
+                    )}
+                    <Toggle label="FILM GRAIN" checked={graphics.noise} onChange={(noise) => setGraphics({ noise })} />
+                    <Toggle label="VIGNETTE" checked={graphics.vignette} onChange={(vignette) => setGraphics({ vignette })} />
+                    <Slider
+                        label="FIELD OF VIEW"
+                        value={graphics.fov}
+                        display={`${graphics.fov}°`}
+                        range={FOV_RANGE}
+                        step={1}
+                        onChange={(fov) => setGraphics({ fov })}
+                    />
+                </div>
+
+                <h3 className="w-full text-sm md:text-base font-bold tracking-widest text-gray-300 mt-8 mb-2">ACCESSIBILITY</h3>
+                <div className="w-full space-y-3">
+                    <Toggle
+                        label="REDUCED MOTION"
+                        hint="Slows the tunnel, stars and camera easing"
+                        checked={graphics.reducedMotion}
+                        onChange={(reducedMotion) => setGraphics({ reducedMotion })}
+                    />
+                    <Toggle
+                        label="COLOUR-BLIND PALETTE"
+                        hint="Target letters and hazards in colour-blind-safe colours"
+                        checked={graphics.colorBlind}
+                        onChange={(colorBlind) => setGraphics({ colorBlind })}
+                    />
+                </div>
+
+                <h3 className="w-full text-sm md:text-base font-bold tracking-widest text-gray-300 mt-8 mb-2">DEBUG</h3>
+                <div className="w-full space-y-3">
+                    <Toggle label="PERFORMANCE OVERLAY" checked={showPerfOverlay} onChange={setShowPerfOverlay} />
+                    <Toggle label="SHOW HITBOXES" checked={showColliders} onChange={setShowColliders} />
+                </div>
+            </div>
+        </div>
+    );
+};
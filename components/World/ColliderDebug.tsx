@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Collider, ColliderRole, Vec3, getPlayerCollider } from '../System/Colliders';
+import { ENTITY_REGISTRY } from '../Entities';
+import { getActiveSimulation } from '../System/Replay';
+
+const BOX_GEO = new THREE.BoxGeometry(1, 1, 1);
+const capsuleGeometries = new Map<string, THREE.CapsuleGeometry>();
+
+const getCapsuleGeometry = (radius: number, halfHeight: number) => {
+    const key = `${radius}:${halfHeight}`;
+    let geometry = capsuleGeometries.get(key);
+    if (!geometry) {
+        geometry = new THREE.CapsuleGeometry(radius, halfHeight * 2, 4, 12);
+        capsuleGeometries.set(key, geometry);
+    }
+    return geometry;
+};
+
+const wireframe = (color: string) => new THREE.MeshBasicMaterial({ color, wireframe: true, depthTest: false, transparent: true, opacity: 0.8 });
+
+const MATERIALS: Record<ColliderRole | 'PLAYER', THREE.MeshBasicMaterial> = {
+    PLAYER: wireframe('#00ff66'),
+    HAZARD: wireframe('#ff3333'),
+    PICKUP: wireframe('#00ffff'),
+    TRIGGER: wireframe('#ffff00'),
+    PROJECTILE: wireframe('#ff8800')
+};
+
+/**
+ * Draws every collision volume the simulation is testing this frame.
+ * Meshes are pooled and updated in place, since the set of objects changes constantly.
+ */
+export const ColliderDebug: React.FC = () => {
+    const groupRef = useRef<THREE.Group>(null);
+    const pool = useRef<THREE.Mesh[]>([]);
+
+    useEffect(() => () => {
+        pool.current.forEach(mesh => mesh.removeFromParent());
+        pool.current = [];
+    }, []);
+
+    useFrame(() => {
+        const group = groupRef.current;
+        if (!group) return;
+
+        const simulation = getActiveSimulation();
+        const player = simulation.player;
+        let used = 0;
+
+        const draw = (collider: Collider, position: Vec3, material: THREE.MeshBasicMaterial) => {
+            let mesh = pool.current[used];
+            if (!mesh) {
+                mesh = new THREE.Mesh(BOX_GEO, material);
+                mesh.renderOrder = 999;
+                pool.current.push(mesh);
+                group.add(mesh);
+            }
+            used++;
+
+            mesh.visible = true;
+            mesh.material = material;
+            mesh.position.set(
+                position[0] + collider.offset[0],
+                position[1] + collider.offset[1],
+                position[2] + collider.offset[2]
+            );
+            if (collider.shape === 'AABB') {
+                mesh.geometry = BOX_GEO;
+                mesh.scale.set(collider.halfExtents[0] * 2, collider.halfExtents[1] * 2, collider.halfExtents[2] * 2);
+            } else {
+                mesh.geometry = getCapsuleGeometry(collider.radius, collider.halfHeight);
+                mesh.scale.set(1, 1, 1);
+            }
+        };
+
+        draw(getPlayerCollider(player.slideTime > 0), [player.x, player.y, 0], MATERIALS.PLAYER);
+
+        for (const obj of simulation.objects) {
+            if (!obj.active) continue;
+            const { role, colliders } = ENTITY_REGISTRY[obj.type];
+            colliders(obj).forEach(collider => draw(collider, obj.position, MATERIALS[role]));
+        }
+
+        for (let i = used; i < pool.current.length; i++) {
+            pool.current[i].visible = false;
+        }
+    });
+
+    return <group ref={groupRef} />;
+};
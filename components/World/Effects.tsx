@@ -7,20 +7,41 @@
 import React from 'react';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
+import { useSettings } from '../../settings';
+import { useQualityLevel } from '../System/Quality';
+
+// Tighter bloom to avoid fog: high threshold, moderate radius
+const BLOOM = { threshold: 0.75, intensity: 1.0, radius: 0.6 };
+const NOISE_OPACITY = 0.05;
+const VIGNETTE = { offset: 0.1, darkness: 0.5 };
 
 export const Effects: React.FC = () => {
-  return (
-    <EffectComposer disableNormalPass multisampling={0}>
-      {/* Tighter bloom to avoid fog: High threshold, moderate radius */}
+  const { bloomLevels } = useQualityLevel();
+  const { bloom, bloomStrength, noise, vignette } = useSettings(state => state.graphics);
+  const showBloom = bloom && bloomLevels > 0;
+
+  // The composer only takes effect elements as children, so disabled ones are dropped from the list
+  const effects = [
+    showBloom && (
       <Bloom 
-        luminanceThreshold={0.75} 
+        key="bloom"
+        luminanceThreshold={BLOOM.threshold} 
         mipmapBlur 
-        intensity={1.0} 
-        radius={0.6}
-        levels={8}
+        intensity={BLOOM.intensity * bloomStrength} 
+        radius={BLOOM.radius}
+        levels={bloomLevels}
       />
-      <Noise opacity={0.05} blendFunction={BlendFunction.OVERLAY} />
-      <Vignette eskil={false} offset={0.1} darkness={0.5} />
+    ),
+    noise && <Noise key="noise" opacity={NOISE_OPACITY} blendFunction={BlendFunction.OVERLAY} />,
+    vignette && <Vignette key="vignette" eskil={false} offset={VIGNETTE.offset} darkness={VIGNETTE.darkness} />
+  ].filter((effect): effect is React.ReactElement => Boolean(effect));
+
+  // Nothing to compose: let the scene render straight to the screen
+  if (effects.length === 0) return null;
+
+  return (
+    <EffectComposer disableNormalPass multisampling={0}>
+      {effects}
     </EffectComposer>
   );
 };
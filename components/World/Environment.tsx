@@ -5,13 +5,21 @@
 
 
 import React, { useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useStore } from '../../store';
+import { useRunStore } from '../System/Replay';
+import { getLevelDefinition } from '../System/Levels';
+import { useGameFrame } from '../System/Pause';
+import { useQualityLevel } from '../System/Quality';
+import { useMotionScale } from '../System/Graphics';
 import { LANE_WIDTH } from '../../types';
 
+// Colours come from the current level's theme
+const useLevelTheme = () => getLevelDefinition(useRunStore(state => state.level)).theme;
+
 const WarpTunnel: React.FC = () => {
-    const speed = useStore(state => state.speed);
+    const theme = useLevelTheme();
+    const speed = useRunStore(state => state.speed);
+    const motion = useMotionScale();
     const count = 40;
     const meshRef = useRef<THREE.InstancedMesh>(null);
     const dummy = useMemo(() => new THREE.Object3D(), []);
@@ -25,9 +33,9 @@ const WarpTunnel: React.FC = () => {
         }
     }, []);
 
-    useFrame((state, delta) => {
+    useGameFrame((state, delta) => {
         if (!meshRef.current) return;
-        const activeSpeed = speed > 0 ? speed : 10;
+        const activeSpeed = (speed > 0 ? speed : 10) * motion;
         
         for(let i=0; i<count; i++) {
             zPositions.current[i] += activeSpeed * delta;
@@ -38,7 +46,7 @@ const WarpTunnel: React.FC = () => {
             }
 
             dummy.position.set(0, 0, zPositions.current[i]);
-            dummy.rotation.z += delta * 0.2; // Slowly rotate rings
+            dummy.rotation.z += delta * 0.2 * motion; // Slowly rotate rings
             dummy.updateMatrix();
             meshRef.current.setMatrixAt(i, dummy.matrix);
         }
@@ -48,14 +56,15 @@ const WarpTunnel: React.FC = () => {
     return (
         <instancedMesh ref={meshRef} args={[undefined, undefined, count]}>
             <torusGeometry args={[20, 0.2, 8, 32]} />
-            <meshBasicMaterial color="#4400ff" transparent opacity={0.6} wireframe />
+            <meshBasicMaterial color={theme.tunnel} transparent opacity={0.6} wireframe />
         </instancedMesh>
     );
 };
 
-const StarStream: React.FC = () => {
-    const speed = useStore(state => state.speed);
-    const count = 1000; 
+const StarStream: React.FC<{ count: number }> = ({ count }) => {
+    const theme = useLevelTheme();
+    const speed = useRunStore(state => state.speed);
+    const motion = useMotionScale();
     const meshRef = useRef<THREE.Points>(null);
     
     const positions = useMemo(() => {
@@ -69,12 +78,12 @@ const StarStream: React.FC = () => {
             pos[i*3+2] = -Math.random() * 400;
         }
         return pos;
-    }, []);
+    }, [count]);
 
-    useFrame((state, delta) => {
+    useGameFrame((state, delta) => {
         if (!meshRef.current) return;
         const pos = meshRef.current.geometry.attributes.position.array as Float32Array;
-        const activeSpeed = (speed > 0 ? speed : 20) * 1.5;
+        const activeSpeed = (speed > 0 ? speed : 20) * 1.5 * motion;
 
         for(let i=0; i<count; i++) {
             pos[i*3+2] += activeSpeed * delta;
@@ -90,13 +99,14 @@ const StarStream: React.FC = () => {
             <bufferGeometry>
                 <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
             </bufferGeometry>
-            <pointsMaterial size={0.3} color="#00ffff" transparent opacity={0.8} />
+            <pointsMaterial size={0.3} color={theme.stars} transparent opacity={0.8} />
         </points>
     );
 };
 
 const LaneGuides: React.FC = () => {
-    const { laneCount } = useStore();
+    const theme = useLevelTheme();
+    const laneCount = useRunStore(state => state.laneCount);
     
     const separators = useMemo(() => {
         const lines: number[] = [];
@@ -119,7 +129,7 @@ const LaneGuides: React.FC = () => {
             {separators.map((x, i) => (
                 <mesh key={`sep-${i}`} position={[x, 0, -50]} rotation={[-Math.PI / 2, 0, 0]}>
                     <planeGeometry args={[0.05, 400]} /> 
-                    <meshBasicMaterial color="#ff00cc" transparent opacity={0.6} />
+                    <meshBasicMaterial color={theme.lanes} transparent opacity={0.6} />
                 </mesh>
             ))}
         </group>
@@ -128,10 +138,11 @@ const LaneGuides: React.FC = () => {
 
 const EndOfTimeSun: React.FC = () => {
     const meshRef = useRef<THREE.Mesh>(null);
-    useFrame((state) => {
+    const motion = useMotionScale();
+    useGameFrame((state, delta, elapsed) => {
         if(meshRef.current) {
-            meshRef.current.rotation.z += 0.005;
-            const s = 1 + Math.sin(state.clock.elapsedTime) * 0.05;
+            meshRef.current.rotation.z += 0.005 * motion;
+            const s = 1 + Math.sin(elapsed) * 0.05 * motion;
             meshRef.current.scale.set(s,s,s);
         }
     });
@@ -146,16 +157,18 @@ const EndOfTimeSun: React.FC = () => {
 }
 
 export const Environment: React.FC = () => {
+  const theme = useLevelTheme();
+  const { stars } = useQualityLevel();
   return (
     <>
-      <color attach="background" args={['#000000']} />
-      <fog attach="fog" args={['#000000', 30, 120]} />
+      <color attach="background" args={[theme.fog]} />
+      <fog attach="fog" args={[theme.fog, theme.fogNear, theme.fogFar]} />
       
-      <ambientLight intensity={0.5} color="#400080" />
-      <directionalLight position={[0, 20, -10]} intensity={1.5} color="#00ffff" />
+      <ambientLight intensity={0.5} color={theme.ambient} />
+      <directionalLight position={[0, 20, -10]} intensity={1.5} color={theme.light} />
       
       <WarpTunnel />
-      <StarStream />
+      <StarStream key={stars} count={stars} />
       <LaneGuides />
       <EndOfTimeSun />
     </>
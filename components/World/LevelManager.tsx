@@ -7,65 +7,44 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Text3D, Center, Float } from '@react-three/drei';
-import { v4 as uuidv4 } from 'uuid';
-import { useStore } from '../../store';
-import { GameObject, ObjectType, LANE_WIDTH, SPAWN_DISTANCE, REMOVE_DISTANCE, GameStatus, GEMINI_COLORS } from '../../types';
+import { GameObject } from '../../types';
 import { audio } from '../System/Audio';
+import { simulation, SimulationEvent } from '../System/Simulation';
+import { replayPlayer, getActiveSimulation, useRunStore } from '../System/Replay';
+import { isWorldPaused, useGameFrame } from '../System/Pause';
+import { useQualityLevel } from '../System/Quality';
+import { ENTITY_REGISTRY, EntityDefinition } from '../Entities';
 
-// --- GEOMETRIES ---
+const MAX_INSTANCES = 128; // Per part of each instanced type
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+const SHADOW_MATERIAL = new THREE.MeshBasicMaterial({ color: '#000000', opacity: 0.3, transparent: true });
 
-// Gem
-const GEM_GEOMETRY = new THREE.OctahedronGeometry(0.3, 0);
-
-// Flower (Man-eating Plant)
-const STEM_GEO = new THREE.CylinderGeometry(0.1, 0.1, 1.2, 8);
-const FLOWER_HEAD_GEO = new THREE.DodecahedronGeometry(0.5);
-const LEAF_GEO = new THREE.PlaneGeometry(0.4, 0.4);
-
-// Monster (Yokai - Ghostly Spirit)
-const MONSTER_BODY_GEO = new THREE.SphereGeometry(0.5, 8, 8);
-const MONSTER_SPIKE_GEO = new THREE.ConeGeometry(0.1, 0.4, 4);
-
-// Missile/Projectile
-const MISSILE_GEO = new THREE.CapsuleGeometry(0.1, 0.6, 4, 8);
-
-// Shop
-const SHOP_FRAME_GEO = new THREE.BoxGeometry(1, 7, 1);
-const SHOP_BACK_GEO = new THREE.BoxGeometry(1, 5, 1.2); 
-const SHOP_OUTLINE_GEO = new THREE.BoxGeometry(1, 7.2, 0.8);
-const SHOP_FLOOR_GEO = new THREE.PlaneGeometry(1, 4); 
-
-// Shadows
-const SHADOW_SMALL = new THREE.CircleGeometry(0.4, 16);
-const SHADOW_LARGE = new THREE.CircleGeometry(0.8, 16);
-
-const PARTICLE_COUNT = 600;
-const BASE_LETTER_INTERVAL = 150; 
-
-const FONT_URL = "https://cdn.jsdelivr.net/npm/three/examples/fonts/helvetiker_bold.typeface.json";
+// Types drawn by InstancedEntities; everything else mounts a GameEntity per object
+const INSTANCED_ENTITIES = Object.values(ENTITY_REGISTRY).filter(entity => entity.parts);
+const isMounted = (obj: GameObject) => obj.active && !ENTITY_REGISTRY[obj.type].parts;
 
 // --- Particle System ---
-const ParticleSystem: React.FC = () => {
+// Sized by the quality budget; bursts scale with it so a smaller budget still covers the same number of them
+const ParticleSystem: React.FC<{ count: number }> = ({ count }) => {
     const mesh = useRef<THREE.InstancedMesh>(null);
     const dummy = useMemo(() => new THREE.Object3D(), []);
     
-    const particles = useMemo(() => new Array(PARTICLE_COUNT).fill(0).map(() => ({
+    const particles = useMemo(() => new Array(count).fill(0).map(() => ({
         life: 0,
         pos: new THREE.Vector3(),
         vel: new THREE.Vector3(),
         rot: new THREE.Vector3(),
         rotVel: new THREE.Vector3(),
         color: new THREE.Color()
-    })), []);
+    })), [count]);
 
     useEffect(() => {
         const handleExplosion = (e: CustomEvent) => {
             const { position, color } = e.detail;
             let spawned = 0;
-            const burstAmount = 40; 
+            const burstAmount = Math.ceil(count / 15); 
 
-            for(let i = 0; i < PARTICLE_COUNT; i++) {
+            for(let i = 0; i < count; i++) {
                 const p = particles[i];
                 if (p.life <= 0) {
                     p.life = 1.0 + Math.random() * 0.5; 
@@ -91,9 +70,9 @@ const ParticleSystem: React.FC = () => {
         
         window.addEventListener('particle-burst', handleExplosion as any);
         return () => window.removeEventListener('particle-burst', handleExplosion as any);
-    }, [particles]);
+    }, [particles, count]);
 
-    useFrame((state, delta) => {
+    useGameFrame((state, delta) => {
         if (!mesh.current) return;
         const safeDelta = Math.min(delta, 0.1);
 
@@ -122,342 +101,161 @@ const ParticleSystem: React.FC = () => {
     });
 
     return (
-        <instancedMesh ref={mesh} args={[undefined, undefined, PARTICLE_COUNT]}>
+        <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
             <octahedronGeometry args={[0.5, 0]} />
             <meshBasicMaterial toneMapped={false} transparent opacity={0.9} />
         </instancedMesh>
     );
 };
 
-const getRandomLane = (laneCount: number) => {
-    const max = Math.floor(laneCount / 2);
-    return Math.floor(Math.random() * (max * 2 + 1)) - max;
-};
-
-export const LevelManager: React.FC = () => {
-  const { 
-    status, 
-    speed, 
-    collectGem, 
-    collectLetter, 
-    collectedLetters,
-    laneCount,
-    setDistance,
-    openShop,
-    level,
-    decrementTimer
-  } = useStore();
-  
-  const objectsRef = useRef<GameObject[]>([]);
-  const [renderTrigger, setRenderTrigger] = useState(0);
-  const prevStatus = useRef(status);
-  const prevLevel = useRef(level);
-
-  const playerObjRef = useRef<THREE.Object3D | null>(null);
-  const distanceTraveled = useRef(0);
-  const nextLetterDistance = useRef(BASE_LETTER_INTERVAL);
-
-  // Handle resets and transitions
-  useEffect(() => {
-    const isRestart = status === GameStatus.PLAYING && prevStatus.current === GameStatus.GAME_OVER;
-    const isMenuReset = status === GameStatus.MENU;
-    const isLevelUp = level !== prevLevel.current && status === GameStatus.PLAYING;
-    const isVictoryReset = status === GameStatus.PLAYING && prevStatus.current === GameStatus.VICTORY;
-
-    if (isMenuReset || isRestart || isVictoryReset) {
-        objectsRef.current = [];
-        setRenderTrigger(t => t + 1);
-        distanceTraveled.current = 0;
-        nextLetterDistance.current = BASE_LETTER_INTERVAL;
-
-    } else if (isLevelUp && level > 1) {
-        // Clear deep objects
-        objectsRef.current = objectsRef.current.filter(obj => obj.position[2] > -80);
-        
-        objectsRef.current.push({
-            id: uuidv4(),
-            type: ObjectType.SHOP_PORTAL,
-            position: [0, 0, -100], 
-            active: true,
-        });
-        
-        nextLetterDistance.current = distanceTraveled.current - SPAWN_DISTANCE + BASE_LETTER_INTERVAL;
-        setRenderTrigger(t => t + 1);
-    }
-    
-    prevStatus.current = status;
-    prevLevel.current = level;
-  }, [status, level, setDistance]);
-
-  useFrame((state) => {
-      if (!playerObjRef.current) {
-          const group = state.scene.getObjectByName('PlayerGroup');
-          if (group && group.children.length > 0) {
-              playerObjRef.current = group.children[0];
-          }
-      }
-  });
-
-  useFrame((state, delta) => {
-    if (status !== GameStatus.PLAYING) return;
-
-    const safeDelta = Math.min(delta, 0.05); 
-    
-    // Decrement Timer
-    decrementTimer(safeDelta);
-
-    const dist = speed * safeDelta;
-    distanceTraveled.current += dist;
+// Scene-graph stand-ins for one object, laid out like GameEntity so the type's animate hook works unchanged
+interface InstancePose {
+    root: THREE.Group;
+    visual: THREE.Group;
+    parts: THREE.Object3D[];
+    shadow: THREE.Object3D;
+}
+
+const createPose = (entity: EntityDefinition, data: GameObject): InstancePose => {
+    const root = new THREE.Group();
+    const visual = new THREE.Group();
+    visual.position.y = data.position[1];
+    root.add(visual);
+
+    const parts = (entity.parts ?? []).map(part => {
+        const node = new THREE.Object3D();
+        node.name = part.name ?? '';
+        if (part.position) node.position.set(...part.position);
+        if (part.rotation) node.rotation.set(...part.rotation);
+        visual.add(node);
+        return node;
+    });
 
-    let hasChanges = false;
-    let playerPos = new THREE.Vector3(0, 0, 0);
-    
-    if (playerObjRef.current) {
-        playerObjRef.current.getWorldPosition(playerPos);
-    }
+    const shadow = new THREE.Object3D();
+    shadow.position.y = 0.03;
+    shadow.rotation.x = -Math.PI / 2;
+    root.add(shadow);
 
-    // 1. Move & Update
-    const currentObjects = objectsRef.current;
-    const keptObjects: GameObject[] = [];
-    const newSpawns: GameObject[] = [];
+    return { root, visual, parts, shadow };
+};
 
-    for (const obj of currentObjects) {
-        let moveAmount = dist;
-        
-        // Missiles move extra fast
-        if (obj.type === ObjectType.MISSILE) {
-            moveAmount += 30 * safeDelta;
-        }
+// --- Instanced Entities ---
+// Every object of one type, drawn with an InstancedMesh per part. Poses are kept off-scene and their
+// world matrices written straight into the instance buffers, so spawns never go through React.
+const InstancedEntities: React.FC<{ entity: EntityDefinition }> = ({ entity }) => {
+    const { type, parts = [], shadow, animate } = entity;
+    const meshes = useRef<(THREE.InstancedMesh | null)[]>([]);
+    const shadowMesh = useRef<THREE.InstancedMesh>(null);
+    const poses = useMemo(() => new Map<string, InstancePose>(), []);
+    const elapsed = useRef(0);
+
+    // Runs while paused too (with time stopped), so a replay scrubbed while paused still shows where things are
+    useFrame((state, delta) => {
+        const step = isWorldPaused() ? 0 : delta;
+        elapsed.current += step;
+
+        const seen = new Set<string>();
+        let count = 0;
+        for (const obj of getActiveSimulation().objects) {
+            if (obj.type !== type || !obj.active || count >= MAX_INSTANCES) continue;
+
+            let pose = poses.get(obj.id);
+            if (!pose) {
+                pose = createPose(entity, obj);
+                poses.set(obj.id, pose);
+            }
+            seen.add(obj.id);
 
-        const prevZ = obj.position[2];
-        obj.position[2] += moveAmount;
-        
-        // Monster AI (Spawns missile if player is close)
-        if (obj.type === ObjectType.MONSTER && obj.active && !obj.hasFired) {
-             if (obj.position[2] > -80) {
-                 obj.hasFired = true;
-                 newSpawns.push({
-                     id: uuidv4(),
-                     type: ObjectType.MISSILE,
-                     position: [obj.position[0], 1.5, obj.position[2] + 2], 
-                     active: true,
-                     color: '#ff00ff'
-                 });
-                 hasChanges = true;
-                 window.dispatchEvent(new CustomEvent('particle-burst', { 
-                    detail: { position: obj.position, color: '#aa00ff' } 
-                 }));
-             }
-        }
+            pose.root.position.set(obj.position[0], 0, obj.position[2]);
+            animate?.(pose.visual, obj, step, elapsed.current);
+            pose.root.updateMatrixWorld(true);
 
-        let keep = true;
-        if (obj.active) {
-            const zThreshold = 2.0; 
-            const inZZone = (prevZ < playerPos.z + zThreshold) && (obj.position[2] > playerPos.z - zThreshold);
-            
-            if (obj.type === ObjectType.SHOP_PORTAL) {
-                const dz = Math.abs(obj.position[2] - playerPos.z);
-                if (dz < 2) { 
-                     openShop();
-                     obj.active = false;
-                     hasChanges = true;
-                     keep = false; 
-                }
-            } else if (inZZone) {
-                const dx = Math.abs(obj.position[0] - playerPos.x);
-                if (dx < 0.9) { 
-                     
-                     const isDamageSource = [ObjectType.FLOWER, ObjectType.MONSTER, ObjectType.MISSILE].includes(obj.type);
-                     
-                     if (isDamageSource) {
-                         // Collision Box Logic
-                         const playerBottom = playerPos.y;
-                         const playerTop = playerPos.y + 1.2; 
-
-                         let objBottom = 0;
-                         let objTop = 1.5;
-
-                         if (obj.type === ObjectType.MISSILE) {
-                             objBottom = 0.5;
-                             objTop = 2.0;
-                         }
-
-                         const isHit = (playerBottom < objTop) && (playerTop > objBottom);
-
-                         if (isHit) { 
-                             window.dispatchEvent(new Event('player-hit'));
-                             obj.active = false; 
-                             hasChanges = true;
-                             
-                             if (obj.type === ObjectType.MISSILE) {
-                                window.dispatchEvent(new CustomEvent('particle-burst', { 
-                                    detail: { position: obj.position, color: '#ff4400' } 
-                                }));
-                             }
-                         }
-                     } else {
-                         // Collection
-                         const dy = Math.abs(obj.position[1] - playerPos.y);
-                         if (dy < 2.5) { 
-                            if (obj.type === ObjectType.GEM) {
-                                collectGem(obj.points || 50);
-                                audio.playGemCollect();
-                            }
-                            if (obj.type === ObjectType.LETTER && obj.targetIndex !== undefined) {
-                                collectLetter(obj.targetIndex);
-                                audio.playLetterCollect();
-                            }
-                            
-                            window.dispatchEvent(new CustomEvent('particle-burst', { 
-                                detail: { 
-                                    position: obj.position, 
-                                    color: obj.color || '#ffffff' 
-                                } 
-                            }));
-
-                            obj.active = false;
-                            hasChanges = true;
-                         }
-                     }
-                }
-            }
+            pose.parts.forEach((node, i) => {
+                meshes.current[i]?.setMatrixAt(count, node.visible ? node.matrixWorld : HIDDEN_MATRIX);
+            });
+            shadowMesh.current?.setMatrixAt(count, pose.shadow.matrixWorld);
+            count++;
         }
 
-        if (obj.position[2] > REMOVE_DISTANCE) {
-            keep = false;
-            hasChanges = true;
+        for (const id of poses.keys()) {
+            if (!seen.has(id)) poses.delete(id);
         }
 
-        if (keep) {
-            keptObjects.push(obj);
-        }
-    }
+        [...meshes.current, shadowMesh.current].forEach(mesh => {
+            if (!mesh) return;
+            mesh.count = count;
+            mesh.instanceMatrix.needsUpdate = true;
+        });
+    });
 
-    if (newSpawns.length > 0) {
-        keptObjects.push(...newSpawns);
-    }
+    return (
+        <group>
+            {parts.map((part, i) => (
+                <instancedMesh
+                    key={i}
+                    ref={mesh => { meshes.current[i] = mesh; }}
+                    args={[part.geometry, part.material, MAX_INSTANCES]}
+                    castShadow={part.castShadow}
+                    frustumCulled={false}
+                />
+            ))}
+            {shadow && (
+                <instancedMesh ref={shadowMesh} args={[shadow, SHADOW_MATERIAL, MAX_INSTANCES]} frustumCulled={false} />
+            )}
+        </group>
+    );
+};
 
-    // 2. Spawning Logic
-    let furthestZ = -20;
-    const staticObjects = keptObjects.filter(o => o.type !== ObjectType.MISSILE);
-    
-    if (staticObjects.length > 0) {
-        furthestZ = Math.min(...staticObjects.map(o => o.position[2]));
-    }
-
-    if (furthestZ > -SPAWN_DISTANCE) {
-         // Spawning Gap dependent on speed
-         const minGap = 12 + (speed * 0.3); 
-         const spawnZ = Math.min(furthestZ - minGap, -SPAWN_DISTANCE);
-         
-         const isLetterDue = distanceTraveled.current >= nextLetterDistance.current;
-
-         if (isLetterDue) {
-             // Spawn Letter
-             const lane = getRandomLane(laneCount);
-             const target = ['G','E','M','I','N','I'];
-             const availableIndices = target.map((_, i) => i).filter(i => !collectedLetters.includes(i));
-
-             if (availableIndices.length > 0) {
-                 const chosenIndex = availableIndices[Math.floor(Math.random() * availableIndices.length)];
-                 const val = target[chosenIndex];
-                 const color = GEMINI_COLORS[chosenIndex];
-
-                 keptObjects.push({
-                    id: uuidv4(),
-                    type: ObjectType.LETTER,
-                    position: [lane * LANE_WIDTH, 1.0, spawnZ], 
-                    active: true,
-                    color: color,
-                    value: val,
-                    targetIndex: chosenIndex
-                 });
-                 nextLetterDistance.current += BASE_LETTER_INTERVAL;
-                 hasChanges = true;
-             } else {
-                keptObjects.push({
-                    id: uuidv4(),
-                    type: ObjectType.GEM,
-                    position: [lane * LANE_WIDTH, 1.2, spawnZ],
-                    active: true,
-                    color: '#00ffff',
-                    points: 50
-                });
-                hasChanges = true;
-             }
-
-         } else if (Math.random() > 0.1) {
-            // General Spawn (Enemy or Gem)
-            
-            // 70% chance of Enemy, 30% Gem
-            const isEnemy = Math.random() > 0.3;
-
-            if (isEnemy) {
-                // Decide between Flower or Monster (Yokai)
-                // Monsters appear more in later levels or high difficulty
-                const allowMonster = level > 1 || speed > 30;
-                const isMonster = allowMonster && Math.random() < 0.4;
-
-                const availableLanes = [];
-                const maxLane = Math.floor(laneCount / 2);
-                for (let i = -maxLane; i <= maxLane; i++) availableLanes.push(i);
-                availableLanes.sort(() => Math.random() - 0.5);
-
-                const count = Math.random() > 0.7 ? 2 : 1;
-                
-                for(let k=0; k<Math.min(count, availableLanes.length); k++) {
-                    const lane = availableLanes[k];
-                    
-                    if (isMonster) {
-                        keptObjects.push({
-                            id: uuidv4(),
-                            type: ObjectType.MONSTER,
-                            position: [lane * LANE_WIDTH, 2.0, spawnZ], // Float high
-                            active: true,
-                            color: '#aa00ff',
-                            hasFired: false
-                        });
-                    } else {
-                        // Man-eating Flower
-                        keptObjects.push({
-                            id: uuidv4(),
-                            type: ObjectType.FLOWER,
-                            position: [lane * LANE_WIDTH, 0, spawnZ],
-                            active: true,
-                            color: '#ff0000'
-                        });
-                    }
-                }
+export const LevelManager: React.FC = () => {
+  const [renderTrigger, setRenderTrigger] = useState(0);
+  const rendered = useRef({ simulation: getActiveSimulation(), version: -1, mounted: '' });
+  const { particles } = useQualityLevel();
 
-            } else {
-                // Ground Gem
-                const lane = getRandomLane(laneCount);
-                keptObjects.push({
-                    id: uuidv4(),
-                    type: ObjectType.GEM,
-                    position: [lane * LANE_WIDTH, 1.2, spawnZ],
-                    active: true,
-                    color: '#00ffff',
-                    points: 50
-                });
-            }
-            hasChanges = true;
-         }
-    }
-
-    if (hasChanges) {
-        objectsRef.current = keptObjects;
-        setRenderTrigger(t => t + 1);
-    }
+  // Audio and particles react to what happened in the simulation (live or replayed)
+  useEffect(() => {
+    const handleEvent = (event: SimulationEvent) => {
+        if (event.type === 'JUMP') return;
+
+        // Each entity decides how its own events look and sound; anything blasted just blows up
+        const effect = ENTITY_REGISTRY[event.object.type].effects?.(event)
+            ?? (event.type === 'DESTROYED' ? { sound: () => audio.playExplosion(), burst: event.object.color || '#ff8800' } : null);
+        effect?.sound?.();
+        if (event.type === 'HIT' && event.damaged) audio.playDamage();
+        if (event.type === 'HIT' && event.shielded) audio.playShieldBreak();
+        if (event.type === 'STYLE') audio.playStyle(event.bonus === 'BARREL_ROLL');
+
+        if (effect?.burst) {
+            window.dispatchEvent(new CustomEvent('particle-burst', { 
+                detail: { position: [...event.object.position], color: effect.burst } 
+            }));
+        }
+    };
+
+    const unsubscribeLive = simulation.subscribe(handleEvent);
+    const unsubscribeReplay = replayPlayer.simulation.subscribe(handleEvent);
+    return () => {
+        unsubscribeLive();
+        unsubscribeReplay();
+    };
+  }, []);
+
+  // Only re-render when the mounted objects changed, or a different simulation is shown;
+  // instanced types come and go without React noticing
+  useFrame(() => {
+    const active = getActiveSimulation();
+    if (active === rendered.current.simulation && active.version === rendered.current.version) return;
+
+    const mounted = active.objects.filter(isMounted).map(obj => obj.id).join();
+    const changed = active !== rendered.current.simulation || mounted !== rendered.current.mounted;
+    rendered.current = { simulation: active, version: active.version, mounted };
+    if (changed) setRenderTrigger(t => t + 1);
   });
 
   return (
     <group>
-      <ParticleSystem />
-      {objectsRef.current.map(obj => {
-        if (!obj.active) return null;
-        return <GameEntity key={obj.id} data={obj} />;
-      })}
+      <ParticleSystem key={particles} count={particles} />
+      {INSTANCED_ENTITIES.map(entity => <InstancedEntities key={entity.type} entity={entity} />)}
+      {rendered.current.simulation.objects.filter(isMounted).map(obj => <GameEntity key={obj.id} data={obj} />)}
     </group>
   );
 };
@@ -465,159 +263,34 @@ export const LevelManager: React.FC = () => {
 const GameEntity: React.FC<{ data: GameObject }> = React.memo(({ data }) => {
     const groupRef = useRef<THREE.Group>(null);
     const visualRef = useRef<THREE.Group>(null);
-    const { laneCount } = useStore();
+    const id = useRef(data.id);
+    const laneCount = useRunStore(state => state.laneCount);
+    const { Renderer, shadow, animate } = ENTITY_REGISTRY[data.type];
     
-    useFrame((state, delta) => {
+    useGameFrame((state, delta, elapsed) => {
+        // Dropped objects are pooled, so this one may already be standing in for something else
+        if (data.id !== id.current) return;
+
         if (groupRef.current) {
             groupRef.current.position.set(data.position[0], 0, data.position[2]);
         }
 
-        if (visualRef.current) {
-            const baseHeight = data.position[1];
-            
-            if (data.type === ObjectType.FLOWER) {
-                // Biting animation
-                const bite = Math.sin(state.clock.elapsedTime * 10);
-                visualRef.current.scale.set(1 + bite * 0.1, 1 - bite * 0.1, 1 + bite * 0.1);
-            } else if (data.type === ObjectType.MONSTER) {
-                // Hover and wobble
-                visualRef.current.position.y = baseHeight + Math.sin(state.clock.elapsedTime * 3) * 0.3;
-                visualRef.current.rotation.y += delta;
-            } else if (data.type === ObjectType.MISSILE) {
-                visualRef.current.position.y = baseHeight;
-                visualRef.current.rotation.z += delta * 15;
-            } else if (data.type === ObjectType.SHOP_PORTAL) {
-                 visualRef.current.scale.setScalar(1 + Math.sin(state.clock.elapsedTime * 2) * 0.02);
-            } else {
-                // Gems/Letters
-                visualRef.current.rotation.y += delta * 3;
-                visualRef.current.position.y = baseHeight + Math.sin(state.clock.elapsedTime * 4 + data.position[0]) * 0.1;
-            }
+        if (visualRef.current && animate) {
+            animate(visualRef.current, data, delta, elapsed);
         }
     });
 
-    const shadowGeo = useMemo(() => {
-        if (data.type === ObjectType.FLOWER) return SHADOW_LARGE;
-        if (data.type === ObjectType.MONSTER) return SHADOW_LARGE;
-        if (data.type === ObjectType.MISSILE) return SHADOW_SMALL;
-        if (data.type === ObjectType.GEM) return SHADOW_SMALL;
-        if (data.type === ObjectType.LETTER) return SHADOW_LARGE;
-        return null;
-    }, [data.type]);
-
     return (
         <group ref={groupRef} position={[data.position[0], 0, data.position[2]]}>
-            {shadowGeo && (
-                <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]} geometry={shadowGeo}>
+            {shadow && (
+                <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]} geometry={shadow}>
                     <meshBasicMaterial color="#000000" opacity={0.3} transparent />
                 </mesh>
             )}
 
             <group ref={visualRef} position={[0, data.position[1], 0]}>
-                
-                {/* --- SHOP --- */}
-                {data.type === ObjectType.SHOP_PORTAL && (
-                    <group>
-                         <mesh position={[0, 3, 0]} geometry={SHOP_FRAME_GEO} scale={[laneCount * LANE_WIDTH + 2, 1, 1]}>
-                             <meshStandardMaterial color="#222" metalness={0.8} />
-                         </mesh>
-                         <mesh position={[0, 2, 0]} geometry={SHOP_BACK_GEO} scale={[laneCount * LANE_WIDTH, 1, 1]}>
-                              <meshBasicMaterial color="#000" />
-                         </mesh>
-                         <mesh position={[0, 3, 0]} geometry={SHOP_OUTLINE_GEO} scale={[laneCount * LANE_WIDTH + 2.2, 1, 1]}>
-                             <meshBasicMaterial color="#0ff" wireframe opacity={0.3} transparent />
-                         </mesh>
-                         <Center position={[0, 5, 0.6]}>
-                             <Text3D font={FONT_URL} size={1.2} height={0.2}>
-                                 PIT STOP
-                                 <meshBasicMaterial color="#ff0" />
-                             </Text3D>
-                         </Center>
-                    </group>
-                )}
-
-                {/* --- MAN-EATING FLOWER --- */}
-                {data.type === ObjectType.FLOWER && (
-                    <group position={[0, 0.6, 0]}>
-                        <mesh geometry={STEM_GEO}>
-                             <meshStandardMaterial color="#00aa00" roughness={0.5} />
-                        </mesh>
-                        <mesh position={[0, 0.6, 0]} geometry={FLOWER_HEAD_GEO}>
-                             <meshStandardMaterial color="#ff0000" roughness={0.2} emissive="#550000" />
-                        </mesh>
-                        {/* Leaves */}
-                        <mesh position={[0.2, 0, 0]} rotation={[-Math.PI/4, 0, -Math.PI/4]} geometry={LEAF_GEO}>
-                             <meshStandardMaterial color="#00aa00" side={THREE.DoubleSide} />
-                        </mesh>
-                        <mesh position={[-0.2, 0, 0]} rotation={[-Math.PI/4, 0, Math.PI/4]} geometry={LEAF_GEO}>
-                             <meshStandardMaterial color="#00aa00" side={THREE.DoubleSide} />
-                        </mesh>
-                    </group>
-                )}
-
-                {/* --- MONSTER (Yokai) --- */}
-                {data.type === ObjectType.MONSTER && (
-                    <group>
-                        <mesh geometry={MONSTER_BODY_GEO}>
-                            <meshStandardMaterial color="#440088" metalness={0.8} roughness={0.1} emissive="#220044" />
-                        </mesh>
-                        {/* Spikes */}
-                        <mesh position={[0.4, 0.3, 0]} rotation={[0, 0, -0.5]} geometry={MONSTER_SPIKE_GEO}>
-                            <meshBasicMaterial color="#aa00ff" />
-                        </mesh>
-                        <mesh position={[-0.4, 0.3, 0]} rotation={[0, 0, 0.5]} geometry={MONSTER_SPIKE_GEO}>
-                            <meshBasicMaterial color="#aa00ff" />
-                        </mesh>
-                        <mesh position={[0, -0.5, 0]} rotation={[Math.PI, 0, 0]} geometry={MONSTER_SPIKE_GEO}>
-                            <meshBasicMaterial color="#aa00ff" />
-                        </mesh>
-                        {/* Eye */}
-                        <mesh position={[0, 0, 0.4]} geometry={new THREE.CircleGeometry(0.15, 16)}>
-                             <meshBasicMaterial color="#ffff00" />
-                        </mesh>
-                    </group>
-                )}
-
-                {/* --- MISSILE --- */}
-                {data.type === ObjectType.MISSILE && (
-                    <group rotation={[Math.PI / 2, 0, 0]}>
-                        <mesh geometry={MISSILE_GEO}>
-                            <meshStandardMaterial color="#ff00ff" emissive="#ff00ff" emissiveIntensity={2} />
-                        </mesh>
-                    </group>
-                )}
-
-                {/* --- GEM --- */}
-                {data.type === ObjectType.GEM && (
-                    <mesh castShadow geometry={GEM_GEOMETRY}>
-                        <meshStandardMaterial 
-                            color={data.color} 
-                            roughness={0} 
-                            metalness={1} 
-                            emissive={data.color} 
-                            emissiveIntensity={2} 
-                        />
-                    </mesh>
-                )}
-
-                {/* --- LETTER --- */}
-                {data.type === ObjectType.LETTER && (
-                    <group scale={[1.5, 1.5, 1.5]}>
-                         <Center>
-                             <Text3D 
-                                font={FONT_URL} 
-                                size={0.8} 
-                                height={0.5} 
-                                bevelEnabled
-                                bevelThickness={0.02}
-                             >
-                                {data.value}
-                                <meshStandardMaterial color={data.color} emissive={data.color} emissiveIntensity={1.5} />
-                             </Text3D>
-                         </Center>
-                    </group>
-                )}
+                {Renderer && <Renderer data={data} laneCount={laneCount} />}
             </group>
         </group>
     );
-});
\ No newline at end of file
+});
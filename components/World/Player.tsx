@@ -8,12 +8,16 @@ import React, { useRef, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../../store';
+import { useSettings } from '../../settings';
 import { LANE_WIDTH, GameStatus } from '../../types';
 import { audio } from '../System/Audio';
-
-// Physics Constants
-const GRAVITY = 60;
-const JUMP_FORCE = 18; 
+import { simulation, SimulationEvent } from '../System/Simulation';
+import { replayPlayer, getActiveSimulation, useRunStore } from '../System/Replay';
+import { ghostRacer } from '../System/Ghost';
+import { getModifiers } from '../System/Items';
+import { POWER_UPS } from '../System/PowerUps';
+import { getKeyAction, performAction } from '../System/Input';
+import { useGameFrame } from '../System/Pause';
 
 // --- CAR GEOMETRIES ---
 const CAR_BODY_GEO = new THREE.BoxGeometry(0.8, 0.4, 1.8);
@@ -22,7 +26,45 @@ const WHEEL_GEO = new THREE.CylinderGeometry(0.3, 0.3, 0.2, 16);
 const SPOILER_GEO = new THREE.BoxGeometry(0.9, 0.1, 0.3);
 const SPOILER_MOUNT_GEO = new THREE.BoxGeometry(0.1, 0.3, 0.1);
 const EXHAUST_GEO = new THREE.CylinderGeometry(0.1, 0.15, 0.4);
+const SHIELD_BUBBLE_GEO = new THREE.SphereGeometry(1.4, 24, 16);
 const SHADOW_GEO = new THREE.PlaneGeometry(1.2, 2.2);
+const HUB_GEO = new THREE.CylinderGeometry(0.15, 0.15, 0.21, 6);
+
+interface CarMaterials {
+  bodyMat: THREE.Material;
+  darkMat: THREE.Material;
+  wheelMat: THREE.Material;
+  glowMat: THREE.Material;
+  glassMat: THREE.Material;
+}
+
+// Car meshes shared by the player and the ghost racer
+const CarBody: React.FC<CarMaterials & { addWheelRef?: (el: THREE.Group) => void }> = ({ bodyMat, darkMat, wheelMat, glowMat, glassMat, addWheelRef }) => (
+    <>
+         {/* Main Chassis */}
+         <mesh castShadow geometry={CAR_BODY_GEO} material={bodyMat} position={[0, 0.2, 0]} />
+         
+         {/* Cockpit */}
+         <mesh geometry={COCKPIT_GEO} material={glassMat} position={[0, 0.45, -0.2]} />
+         
+         {/* Spoiler */}
+         <mesh geometry={SPOILER_GEO} material={darkMat} position={[0, 0.6, 0.8]} />
+         <mesh geometry={SPOILER_MOUNT_GEO} material={darkMat} position={[-0.3, 0.4, 0.8]} />
+         <mesh geometry={SPOILER_MOUNT_GEO} material={darkMat} position={[0.3, 0.4, 0.8]} />
+
+         {/* Rear Engine Glow */}
+         <mesh geometry={EXHAUST_GEO} material={glowMat} rotation={[Math.PI/2, 0, 0]} position={[0.2, 0.2, 0.95]} />
+         <mesh geometry={EXHAUST_GEO} material={glowMat} rotation={[Math.PI/2, 0, 0]} position={[-0.2, 0.2, 0.95]} />
+
+         {/* Wheels */}
+         {[[0.45, 0.5], [-0.45, 0.5], [0.45, -0.6], [-0.45, -0.6]].map(([x, z], i) => (
+             <group key={i} position={[x, 0, z]} ref={addWheelRef} rotation={[0, 0, Math.PI/2]}>
+                 <mesh geometry={WHEEL_GEO} material={wheelMat} />
+                 <mesh geometry={HUB_GEO} material={glowMat} />
+             </group>
+         ))}
+    </>
+);
 
 export const Player: React.FC = () => {
   const groupRef = useRef<THREE.Group>(null);
@@ -32,23 +74,18 @@ export const Player: React.FC = () => {
   // Wheel references for rotation
   const wheelsRef = useRef<THREE.Group[]>([]);
 
-  const { status, laneCount, takeDamage, hasDoubleJump, activateImmortality, isImmortalityActive, speed } = useStore();
+  // Controls follow the live game; visuals follow whichever run is on screen
+  const status = useStore(state => state.status);
+  const runStatus = useRunStore(state => state.status);
+  const isImmortalityActive = useRunStore(state => getModifiers(state).invulnerable);
+  const isShielded = useRunStore(state => state.powerUps.SHIELD !== undefined);
+  const speed = useRunStore(state => state.speed);
   
-  const [lane, setLane] = React.useState(0);
-  const targetX = useRef(0);
-  
-  // Physics State 
-  const isJumping = useRef(false);
-  const velocityY = useRef(0);
-  const jumpsPerformed = useRef(0); 
   const carRotationZ = useRef(0); // Banking
 
   const touchStartX = useRef(0);
   const touchStartY = useRef(0);
 
-  const isInvincible = useRef(false);
-  const lastDamageTime = useRef(0);
-
   // Memoized Materials
   const { bodyMat, darkMat, wheelMat, glowMat, glassMat, shadowMat } = useMemo(() => {
       const mainColor = isImmortalityActive ? '#ffd700' : '#ff0055'; // Red Car or Gold if Immortal
@@ -73,56 +110,45 @@ export const Player: React.FC = () => {
 
   // --- Reset State on Game Start ---
   useEffect(() => {
-      if (status === GameStatus.PLAYING) {
-          isJumping.current = false;
-          jumpsPerformed.current = 0;
-          velocityY.current = 0;
-          if (groupRef.current) groupRef.current.position.y = 0;
+      if (runStatus === GameStatus.PLAYING) {
           if (carRef.current) carRef.current.rotation.set(0,0,0);
       }
-  }, [status]);
-  
-  useEffect(() => {
-      const maxLane = Math.floor(laneCount / 2);
-      if (Math.abs(lane) > maxLane) {
-          setLane(l => Math.max(Math.min(l, maxLane), -maxLane));
-      }
-  }, [laneCount, lane]);
+  }, [runStatus]);
 
-  // --- Controls ---
-  const triggerJump = () => {
-    const maxJumps = hasDoubleJump ? 2 : 1;
-
-    if (!isJumping.current) {
-        audio.playJump(false);
-        isJumping.current = true;
-        jumpsPerformed.current = 1;
-        velocityY.current = JUMP_FORCE;
-    } else if (jumpsPerformed.current < maxJumps) {
-        audio.playJump(true);
-        jumpsPerformed.current += 1;
-        velocityY.current = JUMP_FORCE;
+  // Jump feedback comes from the simulation, so it only plays for jumps that happened
+  useEffect(() => {
+    const handleEvent = (event: SimulationEvent) => {
+        if (event.type !== 'JUMP') return;
+        audio.playJump(event.double);
         // Do a barrel roll
-        if(carRef.current) carRef.current.rotation.z = Math.PI * 2;
-    }
-  };
+        if (event.double && carRef.current) carRef.current.rotation.z = Math.PI * 2;
+    };
 
+    const unsubscribeLive = simulation.subscribe(handleEvent);
+    const unsubscribeReplay = replayPlayer.simulation.subscribe(handleEvent);
+    return () => {
+        unsubscribeLive();
+        unsubscribeReplay();
+    };
+  }, []);
+
+  // --- Controls ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (status !== GameStatus.PLAYING) return;
-      const maxLane = Math.floor(laneCount / 2);
-
-      if (e.key === 'ArrowLeft') setLane(l => Math.max(l - 1, -maxLane));
-      else if (e.key === 'ArrowRight') setLane(l => Math.min(l + 1, maxLane));
-      else if (e.key === 'ArrowUp' || e.key === 'w' || e.key === ' ') triggerJump();
-      else if (e.key === 'Enter') {
-          activateImmortality();
+      // Typing in a form field (seed, word, rebinding) is not a game input
+      if (e.target instanceof HTMLInputElement || e.repeat) return;
+
+      const action = getKeyAction(e.code);
+      if (!action) return;
+      if (status === GameStatus.PLAYING || action === 'PAUSE') {
+          e.preventDefault();
+          performAction(action);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, laneCount, hasDoubleJump, activateImmortality]);
+  }, [status]);
 
   useEffect(() => {
     const handleTouchStart = (e: TouchEvent) => {
@@ -134,15 +160,19 @@ export const Player: React.FC = () => {
         if (status !== GameStatus.PLAYING) return;
         const deltaX = e.changedTouches[0].clientX - touchStartX.current;
         const deltaY = e.changedTouches[0].clientY - touchStartY.current;
-        const maxLane = Math.floor(laneCount / 2);
-
-        if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > 30) {
-             if (deltaX > 0) setLane(l => Math.min(l + 1, maxLane));
-             else setLane(l => Math.max(l - 1, -maxLane));
-        } else if (Math.abs(deltaY) > Math.abs(deltaX) && deltaY < -30) {
-            triggerJump();
-        } else if (Math.abs(deltaX) < 10 && Math.abs(deltaY) < 10) {
-            activateImmortality();
+
+        // A tap is anything that moved less than a third of a swipe
+        const swipe = useSettings.getState().swipeDistance;
+        const tap = swipe / 3;
+
+        if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > swipe) {
+             performAction(deltaX > 0 ? 'MOVE_RIGHT' : 'MOVE_LEFT');
+        } else if (Math.abs(deltaY) > Math.abs(deltaX) && deltaY < -swipe) {
+            performAction('JUMP');
+        } else if (Math.abs(deltaY) > Math.abs(deltaX) && deltaY > swipe) {
+            performAction('SLIDE');
+        } else if (Math.abs(deltaX) < tap && Math.abs(deltaY) < tap) {
+            performAction('ABILITY');
         }
     };
 
@@ -152,37 +182,23 @@ export const Player: React.FC = () => {
         window.removeEventListener('touchstart', handleTouchStart);
         window.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [status, laneCount, hasDoubleJump, activateImmortality]);
+  }, [status]);
 
   // --- Animation Loop ---
-  useFrame((state, delta) => {
+  useGameFrame((state, delta, elapsed) => {
     if (!groupRef.current) return;
-    if (status !== GameStatus.PLAYING && status !== GameStatus.SHOP) return;
-
-    // 1. Horizontal Position
-    targetX.current = lane * LANE_WIDTH;
-    groupRef.current.position.x = THREE.MathUtils.lerp(
-        groupRef.current.position.x, 
-        targetX.current, 
-        delta * 12
-    );
-
-    // 2. Physics (Jump)
-    if (isJumping.current) {
-        groupRef.current.position.y += velocityY.current * delta;
-        velocityY.current -= GRAVITY * delta;
-
-        if (groupRef.current.position.y <= 0) {
-            groupRef.current.position.y = 0;
-            isJumping.current = false;
-            jumpsPerformed.current = 0;
-            velocityY.current = 0;
-            if(carRef.current) carRef.current.rotation.z = 0;
-            if(carRef.current) carRef.current.rotation.x = 0;
-        }
+    if (runStatus !== GameStatus.PLAYING && runStatus !== GameStatus.SHOP) return;
+
+    // 1. Position comes straight from the simulation
+    const player = getActiveSimulation().player;
+    const wasJumping = groupRef.current.position.y > 0;
+    groupRef.current.position.x = player.x;
+    groupRef.current.position.y = player.y;
 
+    // 2. Jump pose
+    if (player.isJumping) {
         // Mid-air rotation
-        if (carRef.current && jumpsPerformed.current === 2) {
+        if (carRef.current && player.jumpsPerformed === 2) {
              // Barrel roll decay
              carRef.current.rotation.z = THREE.MathUtils.lerp(carRef.current.rotation.z, 0, delta * 5);
         } else if (carRef.current) {
@@ -190,15 +206,19 @@ export const Player: React.FC = () => {
             carRef.current.rotation.x = -0.2;
         }
     } else {
-        if(carRef.current) carRef.current.rotation.x = 0;
+        if (carRef.current) {
+            carRef.current.rotation.x = 0;
+            // Landed: drop any leftover barrel roll
+            if (wasJumping) carRef.current.rotation.z = 0;
+        }
     }
 
     // 3. Banking logic (Steering)
-    const xDiff = targetX.current - groupRef.current.position.x;
+    const xDiff = player.lane * LANE_WIDTH - player.x;
     const targetBank = -xDiff * 0.3; // Bank into turn
     carRotationZ.current = THREE.MathUtils.lerp(carRotationZ.current, targetBank, delta * 10);
     
-    if (carRef.current && jumpsPerformed.current !== 2) {
+    if (carRef.current && player.jumpsPerformed !== 2) {
         carRef.current.rotation.z = carRotationZ.current;
     }
 
@@ -209,11 +229,17 @@ export const Player: React.FC = () => {
     });
 
     // 5. Engine Shake / Hover effect slightly
-    if (carRef.current && !isJumping.current) {
-        carRef.current.position.y = 0.3 + Math.sin(state.clock.elapsedTime * 20) * 0.01;
+    if (carRef.current && !player.isJumping) {
+        carRef.current.position.y = 0.3 + Math.sin(elapsed * 20) * 0.01;
+    }
+
+    // 6. Slide: squash the car down under overhead debris
+    if (carRef.current) {
+        const targetScaleY = player.slideTime > 0 ? 0.45 : 1;
+        carRef.current.scale.y = THREE.MathUtils.lerp(carRef.current.scale.y, targetScaleY, Math.min(delta * 20, 1));
     }
 
-    // 6. Dynamic Shadow
+    // 7. Dynamic Shadow
     if (shadowRef.current) {
         const height = groupRef.current.position.y;
         const scale = Math.max(0.5, 1 - (height / 3) * 0.5);
@@ -223,37 +249,13 @@ export const Player: React.FC = () => {
     }
 
     // Invincibility Flicker
-    const showFlicker = isInvincible.current || isImmortalityActive;
-    if (showFlicker) {
-        if (isInvincible.current) {
-             if (Date.now() - lastDamageTime.current > 1500) {
-                isInvincible.current = false;
-                groupRef.current.visible = true;
-             } else {
-                groupRef.current.visible = Math.floor(Date.now() / 50) % 2 === 0;
-             }
-        } 
-        if (isImmortalityActive) {
-            groupRef.current.visible = true; 
-        }
+    if (player.invincibleTime > 0 && !isImmortalityActive) {
+        groupRef.current.visible = Math.floor(Date.now() / 50) % 2 === 0;
     } else {
         groupRef.current.visible = true;
     }
   });
 
-  // Damage Handler
-  useEffect(() => {
-     const checkHit = (e: any) => {
-        if (isInvincible.current || isImmortalityActive) return;
-        audio.playDamage();
-        takeDamage();
-        isInvincible.current = true;
-        lastDamageTime.current = Date.now();
-     };
-     window.addEventListener('player-hit', checkHit);
-     return () => window.removeEventListener('player-hit', checkHit);
-  }, [takeDamage, isImmortalityActive]);
-
   // Helper to add wheels to ref array
   const addWheelRef = (el: THREE.Group) => {
       if (el && !wheelsRef.current.includes(el)) {
@@ -264,43 +266,46 @@ export const Player: React.FC = () => {
   return (
     <group ref={groupRef}>
       <group ref={carRef} position={[0, 0.3, 0]}>
-         
-         {/* Main Chassis */}
-         <mesh castShadow geometry={CAR_BODY_GEO} material={bodyMat} position={[0, 0.2, 0]} />
-         
-         {/* Cockpit */}
-         <mesh geometry={COCKPIT_GEO} material={glassMat} position={[0, 0.45, -0.2]} />
-         
-         {/* Spoiler */}
-         <mesh geometry={SPOILER_GEO} material={darkMat} position={[0, 0.6, 0.8]} />
-         <mesh geometry={SPOILER_MOUNT_GEO} material={darkMat} position={[-0.3, 0.4, 0.8]} />
-         <mesh geometry={SPOILER_MOUNT_GEO} material={darkMat} position={[0.3, 0.4, 0.8]} />
-
-         {/* Rear Engine Glow */}
-         <mesh geometry={EXHAUST_GEO} material={glowMat} rotation={[Math.PI/2, 0, 0]} position={[0.2, 0.2, 0.95]} />
-         <mesh geometry={EXHAUST_GEO} material={glowMat} rotation={[Math.PI/2, 0, 0]} position={[-0.2, 0.2, 0.95]} />
-
-         {/* Wheels */}
-         <group position={[0.45, 0, 0.5]} ref={addWheelRef} rotation={[0, 0, Math.PI/2]}>
-             <mesh geometry={WHEEL_GEO} material={wheelMat} />
-             <mesh geometry={new THREE.CylinderGeometry(0.15, 0.15, 0.21, 6)} material={glowMat} />
-         </group>
-         <group position={[-0.45, 0, 0.5]} ref={addWheelRef} rotation={[0, 0, Math.PI/2]}>
-             <mesh geometry={WHEEL_GEO} material={wheelMat} />
-             <mesh geometry={new THREE.CylinderGeometry(0.15, 0.15, 0.21, 6)} material={glowMat} />
-         </group>
-         <group position={[0.45, 0, -0.6]} ref={addWheelRef} rotation={[0, 0, Math.PI/2]}>
-             <mesh geometry={WHEEL_GEO} material={wheelMat} />
-             <mesh geometry={new THREE.CylinderGeometry(0.15, 0.15, 0.21, 6)} material={glowMat} />
-         </group>
-         <group position={[-0.45, 0, -0.6]} ref={addWheelRef} rotation={[0, 0, Math.PI/2]}>
-             <mesh geometry={WHEEL_GEO} material={wheelMat} />
-             <mesh geometry={new THREE.CylinderGeometry(0.15, 0.15, 0.21, 6)} material={glowMat} />
-         </group>
+         <CarBody bodyMat={bodyMat} darkMat={darkMat} wheelMat={wheelMat} glowMat={glowMat} glassMat={glassMat} addWheelRef={addWheelRef} />
       </group>
       
+      {/* Shield bubble power-up */}
+      {isShielded && (
+        <mesh position={[0, 0.6, 0]} geometry={SHIELD_BUBBLE_GEO}>
+          <meshBasicMaterial color={POWER_UPS.SHIELD.color} transparent opacity={0.2} depthWrite={false} toneMapped={false} />
+        </mesh>
+      )}
+
       {/* Shadow */}
       <mesh ref={shadowRef} rotation={[-Math.PI/2, 0, 0]} position={[0, 0.02, 0]} geometry={SHADOW_GEO} material={shadowMat} />
     </group>
   );
-};
\ No newline at end of file
+};
+
+// Ghost material: one translucent, unlit material for every part so it reads as a hologram
+const GHOST_MAT = new THREE.MeshBasicMaterial({ color: '#66ffff', transparent: true, opacity: 0.25, depthWrite: false });
+const GHOST_VISIBLE_RANGE = 150;
+
+// Translucent replay of the best run on this seed, positioned by distance relative to the live car
+export const GhostCar: React.FC = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const status = useStore(state => state.status);
+
+  useFrame(() => {
+    if (!groupRef.current) return;
+    const offset = ghostRacer.delta;
+    const isRacing = ghostRacer.active && (status === GameStatus.PLAYING || status === GameStatus.PAUSED || status === GameStatus.SHOP);
+    groupRef.current.visible = isRacing && Math.abs(offset) < GHOST_VISIBLE_RANGE;
+
+    const ghost = ghostRacer.playback.simulation.player;
+    groupRef.current.position.set(ghost.x, ghost.y, offset);
+  });
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <group position={[0, 0.3, 0]}>
+        <CarBody bodyMat={GHOST_MAT} darkMat={GHOST_MAT} wheelMat={GHOST_MAT} glowMat={GHOST_MAT} glassMat={GHOST_MAT} />
+      </group>
+    </group>
+  );
+};
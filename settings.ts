@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { readJSON, writeJSON } from './components/System/Storage';
+
+export type InputAction = 'MOVE_LEFT' | 'MOVE_RIGHT' | 'JUMP' | 'SLIDE' | 'ABILITY' | 'FIRE' | 'PAUSE';
+
+export const INPUT_ACTIONS: InputAction[] = ['MOVE_LEFT', 'MOVE_RIGHT', 'JUMP', 'SLIDE', 'ABILITY', 'FIRE', 'PAUSE'];
+
+export type QualityPreset = 'LOW' | 'MEDIUM' | 'HIGH' | 'ULTRA';
+
+// Lowest to highest
+export const QUALITY_PRESETS: QualityPreset[] = ['LOW', 'MEDIUM', 'HIGH', 'ULTRA'];
+
+export interface ControlBindings {
+  keys: Record<InputAction, string[]>;    // KeyboardEvent.code values
+  buttons: Record<InputAction, number[]>; // Standard gamepad button indices
+}
+
+export interface GraphicsSettings {
+  bloom: boolean;
+  bloomStrength: number; // Scales the bloom intensity
+  noise: boolean;        // Film grain
+  vignette: boolean;
+  reducedMotion: boolean; // Damps tunnel, star and camera motion
+  fov: number;           // Vertical, in degrees
+  colorBlind: boolean;   // Colour-blind-safe palette for target letters and hazards
+}
+
+// Volumes run 0 to 1 and multiply: a bus is heard at its own volume times master
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  ui: number;
+  muted: boolean;
+}
+
+// Everything in here is persisted
+export interface Settings {
+  controls: ControlBindings;
+  swipeDistance: number; // px a touch has to travel to count as a swipe
+  showColliders: boolean; // Debug overlay of every collision volume
+  quality: QualityPreset;
+  adaptiveQuality: boolean; // Drop below the preset while frames run long, and climb back up to it
+  showPerfOverlay: boolean;
+  graphics: GraphicsSettings;
+  audio: AudioSettings;
+}
+
+export interface SettingsState extends Settings {
+  bindKey: (action: InputAction, code: string) => void;
+  bindButton: (action: InputAction, button: number) => void;
+  unbind: (action: InputAction) => void;
+  setSwipeDistance: (px: number) => void;
+  setShowColliders: (show: boolean) => void;
+  setQuality: (quality: QualityPreset) => void;
+  setAdaptiveQuality: (adaptive: boolean) => void;
+  setShowPerfOverlay: (show: boolean) => void;
+  setGraphics: (graphics: Partial<GraphicsSettings>) => void;
+  resetGraphics: () => void;
+  setAudio: (audio: Partial<AudioSettings>) => void;
+  resetControls: () => void;
+}
+
+const SETTINGS_KEY = 'time-tunnel:settings';
+
+export const SWIPE_DISTANCE_RANGE = { min: 10, max: 80 };
+export const BLOOM_STRENGTH_RANGE = { min: 0.25, max: 2 };
+export const FOV_RANGE = { min: 50, max: 90 };
+const VOLUME_RANGE = { min: 0, max: 1 };
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(Math.max(value, min), max);
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+  keys: {
+    MOVE_LEFT: ['ArrowLeft', 'KeyA'],
+    MOVE_RIGHT: ['ArrowRight', 'KeyD'],
+    JUMP: ['ArrowUp', 'KeyW', 'Space'],
+    SLIDE: ['ArrowDown', 'KeyS'],
+    ABILITY: ['Enter'],
+    FIRE: ['KeyF', 'ShiftLeft'],
+    PAUSE: ['Escape', 'KeyP']
+  },
+  buttons: {
+    MOVE_LEFT: [14],  // D-pad left (the left stick always steers too)
+    MOVE_RIGHT: [15], // D-pad right
+    JUMP: [0],        // A
+    SLIDE: [13, 1],   // D-pad down, B
+    ABILITY: [4, 5],  // Shoulders
+    FIRE: [2, 7],     // X, right trigger
+    PAUSE: [9]        // Start
+  }
+};
+
+const DEFAULT_SETTINGS: Settings = {
+  controls: DEFAULT_BINDINGS,
+  swipeDistance: 30,
+  showColliders: false,
+  quality: 'HIGH',
+  adaptiveQuality: true,
+  showPerfOverlay: false,
+  graphics: {
+    bloom: true,
+    bloomStrength: 1,
+    noise: true,
+    vignette: true,
+    reducedMotion: false,
+    fov: 60,
+    colorBlind: false
+  },
+  audio: {
+    master: 1,
+    music: 0.7,
+    sfx: 1,
+    ui: 0.8,
+    muted: false
+  }
+};
+
+// Out-of-range numbers are pulled back into range rather than dropped
+const sanitizeGraphics = (graphics: Partial<GraphicsSettings>): GraphicsSettings => {
+  const defaults = DEFAULT_SETTINGS.graphics;
+  const flag = (key: 'bloom' | 'noise' | 'vignette' | 'reducedMotion' | 'colorBlind') =>
+    typeof graphics[key] === 'boolean' ? graphics[key] : defaults[key];
+  const number = (key: 'bloomStrength' | 'fov', range: { min: number; max: number }) =>
+    typeof graphics[key] === 'number' && Number.isFinite(graphics[key]) ? clamp(graphics[key], range) : defaults[key];
+
+  return {
+    bloom: flag('bloom'),
+    bloomStrength: number('bloomStrength', BLOOM_STRENGTH_RANGE),
+    noise: flag('noise'),
+    vignette: flag('vignette'),
+    reducedMotion: flag('reducedMotion'),
+    fov: number('fov', FOV_RANGE),
+    colorBlind: flag('colorBlind')
+  };
+};
+
+const sanitizeAudio = (audio: Partial<AudioSettings>): AudioSettings => {
+  const defaults = DEFAULT_SETTINGS.audio;
+  const volume = (key: 'master' | 'music' | 'sfx' | 'ui') =>
+    typeof audio[key] === 'number' && Number.isFinite(audio[key]) ? clamp(audio[key], VOLUME_RANGE) : defaults[key];
+
+  return {
+    master: volume('master'),
+    music: volume('music'),
+    sfx: volume('sfx'),
+    ui: volume('ui'),
+    muted: typeof audio.muted === 'boolean' ? audio.muted : defaults.muted
+  };
+};
+
+// Keep only well-formed entries from storage, so an older or hand-edited save can't break input
+const loadSettings = (): Settings => {
+  const saved = readJSON<Partial<Settings>>(SETTINGS_KEY, {});
+  const pick = <T>(list: unknown, fallback: T[], valid: (value: unknown) => boolean): T[] =>
+    Array.isArray(list) && list.every(valid) ? list as T[] : fallback;
+
+  const controls: ControlBindings = { keys: { ...DEFAULT_BINDINGS.keys }, buttons: { ...DEFAULT_BINDINGS.buttons } };
+  for (const action of INPUT_ACTIONS) {
+    controls.keys[action] = pick(saved.controls?.keys?.[action], DEFAULT_BINDINGS.keys[action], v => typeof v === 'string');
+    controls.buttons[action] = pick(saved.controls?.buttons?.[action], DEFAULT_BINDINGS.buttons[action], Number.isInteger);
+  }
+
+  const swipeDistance = typeof saved.swipeDistance === 'number'
+    ? clamp(saved.swipeDistance, SWIPE_DISTANCE_RANGE)
+    : DEFAULT_SETTINGS.swipeDistance;
+
+  const showColliders = typeof saved.showColliders === 'boolean' ? saved.showColliders : DEFAULT_SETTINGS.showColliders;
+  const quality = QUALITY_PRESETS.find(preset => preset === saved.quality) ?? DEFAULT_SETTINGS.quality;
+  const adaptiveQuality = typeof saved.adaptiveQuality === 'boolean' ? saved.adaptiveQuality : DEFAULT_SETTINGS.adaptiveQuality;
+  const showPerfOverlay = typeof saved.showPerfOverlay === 'boolean' ? saved.showPerfOverlay : DEFAULT_SETTINGS.showPerfOverlay;
+
+  const graphics = sanitizeGraphics(saved.graphics ?? {});
+  const audio = sanitizeAudio(saved.audio ?? {});
+
+  return { ...DEFAULT_SETTINGS, controls, swipeDistance, showColliders, quality, adaptiveQuality, showPerfOverlay, graphics, audio };
+};
+
+// A key or button drives one action at most, so binding it moves it off any other action
+const rebind = <T>(bindings: Record<InputAction, T[]>, action: InputAction, value: T) => {
+  const next = { ...bindings };
+  for (const other of INPUT_ACTIONS) {
+    next[other] = next[other].filter(entry => entry !== value);
+  }
+  next[action] = [...next[action], value];
+  return next;
+};
+
+export const useSettings = create<SettingsState>()((set, get) => ({
+  ...loadSettings(),
+
+  bindKey: (action, code) => {
+    const { controls } = get();
+    set({ controls: { ...controls, keys: rebind(controls.keys, action, code) } });
+  },
+
+  bindButton: (action, button) => {
+    const { controls } = get();
+    set({ controls: { ...controls, buttons: rebind(controls.buttons, action, button) } });
+  },
+
+  unbind: (action) => {
+    const { controls } = get();
+    set({
+      controls: {
+        keys: { ...controls.keys, [action]: [] },
+        buttons: { ...controls.buttons, [action]: [] }
+      }
+    });
+  },
+
+  setSwipeDistance: (px) => set({
+    swipeDistance: clamp(Math.round(px), SWIPE_DISTANCE_RANGE)
+  }),
+
+  setShowColliders: (show) => set({ showColliders: show }),
+
+  setQuality: (quality) => set({ quality }),
+
+  setAdaptiveQuality: (adaptive) => set({ adaptiveQuality: adaptive }),
+
+  setShowPerfOverlay: (show) => set({ showPerfOverlay: show }),
+
+  setGraphics: (graphics) => set({ graphics: sanitizeGraphics({ ...get().graphics, ...graphics }) }),
+
+  resetGraphics: () => set({ graphics: DEFAULT_SETTINGS.graphics }),
+
+  setAudio: (audio) => set({ audio: sanitizeAudio({ ...get().audio, ...audio }) }),
+
+  resetControls: () => set({ controls: DEFAULT_BINDINGS, swipeDistance: DEFAULT_SETTINGS.swipeDistance }),
+}));
+
+// Persist on every change; failed writes just mean settings last for this session only
+useSettings.subscribe(state => {
+  const { controls, swipeDistance, showColliders, quality, adaptiveQuality, showPerfOverlay, graphics, audio }: Settings = state;
+  writeJSON(SETTINGS_KEY, { controls, swipeDistance, showColliders, quality, adaptiveQuality, showPerfOverlay, graphics, audio });
+});
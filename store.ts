@@ -4,81 +4,142 @@
 */
 
 
-import { create } from 'zustand';
-import { GameStatus, RUN_SPEED_BASE, Difficulty } from './types';
+import { create, StateCreator } from 'zustand';
+import { GameStatus, RUN_SPEED_BASE, Difficulty, ObjectType, Inventory, ItemId, ItemTrigger, ActivePowerUps, PowerUpKind, ScoreBreakdown, ScoreSource } from './types';
+import { createSeed } from './components/System/Random';
+import { getLevelDefinition, MAX_LEVEL } from './components/System/Levels';
+import { splitTargetWord } from './components/System/TargetWord';
+import { ITEM_REGISTRY, createOwnedItem, getItemCost, getModifiers, getTriggeredItem, isItemReady, tickOwnedItem } from './components/System/Items';
+import { addPowerUp, removePowerUp, tickPowerUps } from './components/System/PowerUps';
+import { COMBO_WINDOW, STYLE_POINTS, createScoreBreakdown, getComboMultiplier, ITEM_MULTIPLIED_SOURCES } from './components/System/Scoring';
 
-interface GameState {
+// What a letter pickup did: filled a slot, broke the spelling order, or matched nothing still needed
+export type LetterPickup = 'COLLECTED' | 'WRONG_ORDER' | 'UNNEEDED';
+
+export interface RunOptions {
+  targetWord?: string; // Overrides every level's word for this run (normalized)
+}
+
+export interface GameState {
   status: GameStatus;
   score: number;
   lives: number;
   maxLives: number;
   speed: number;
   collectedLetters: number[]; 
+  targetLetters: string[]; // Word to spell on the current level, one entry per letter
+  customWord: string | null; // Per-run override of the levels' words
   level: number;
   laneCount: number;
   gemsCollected: number;
   distance: number;
+  lastDamageSource: ObjectType | null; // What took the last life, for run history
+
+  // Scoring
+  combo: number;      // Pickups in a row, see Scoring.ts
+  comboTime: number;  // Seconds until the combo runs out
+  bestCombo: number;
+  levelHits: number;  // Hits taken on the current level; none earns a perfect level bonus
+  scoreBreakdown: ScoreBreakdown;
+  creditsSpent: number; // Score spent in the shop
   
   // Time Tunnel Specifics
   difficulty: Difficulty;
   timeLeft: number;
   maxTime: number;
 
-  // Inventory / Abilities
-  hasDoubleJump: boolean;
-  hasImmortality: boolean;
-  isImmortalityActive: boolean;
+  // Seed for all run generation (same seed => same track)
+  seed: number;
+  seeded: boolean; // Started on a chosen seed rather than a random one, so restarts keep it
+  runId: number; // Bumped by every startGame so the simulation knows to reset
+
+  // Items bought this run; what they do is read through getModifiers
+  inventory: Inventory;
+  powerUps: ActivePowerUps; // Timed boosts picked up on the track
+
+  // Set while a level's boss is up; the level is only cleared once it falls
+  boss: { health: number; maxHealth: number } | null;
 
   // Actions
-  startGame: (diff: Difficulty) => void;
+  startGame: (diff: Difficulty, seed?: number, options?: RunOptions) => void;
   restartGame: () => void;
-  takeDamage: () => void;
-  addScore: (amount: number) => void;
+  takeDamage: (source?: ObjectType) => void;
+  addScore: (amount: number, source: ScoreSource) => void; // Applies the combo multiplier, plus item multipliers for gems and kills
+  extendCombo: () => void;
+  breakCombo: () => void;
   collectGem: (value: number) => void;
-  collectLetter: (index: number) => void;
+  collectLetter: (letter: string) => LetterPickup;
+  damageBoss: (amount: number) => void;
+  completeLevel: () => void;
   setStatus: (status: GameStatus) => void;
+  pauseGame: () => void;
+  resumeGame: () => void;
   setDistance: (dist: number) => void;
   decrementTimer: (delta: number) => void;
   
   // Shop / Abilities
-  buyItem: (type: 'DOUBLE_JUMP' | 'MAX_LIFE' | 'HEAL' | 'IMMORTAL', cost: number) => boolean;
+  buyItem: (id: ItemId) => boolean;
   advanceLevel: () => void;
   openShop: () => void;
   closeShop: () => void;
-  activateImmortality: () => void;
+  triggerItem: (trigger: ItemTrigger) => ItemId | null; // The item that went off, if one was ready
+  collectPowerUp: (kind: PowerUpKind) => void;
+  consumePowerUp: (kind: PowerUpKind) => void; // Ends it early, e.g. a shield that took a hit
 }
 
-const GEMINI_TARGET = ['G', 'E', 'M', 'I', 'N', 'I'];
-const MAX_LEVEL = 3;
+const MAX_LANES = 9;
 
-// Difficulty Settings
+// Difficulty Settings (lanes are added on top of each level's own lane count)
+// aggression scales the level's enemy behaviour profile
 const DIFFICULTY_SETTINGS = {
-  [Difficulty.EASY]: { speed: 20, time: 90, lanes: 3 },
-  [Difficulty.MEDIUM]: { speed: 30, time: 60, lanes: 3 },
-  [Difficulty.HARD]: { speed: 45, time: 45, lanes: 5 }, // Hard starts wider and faster
+  [Difficulty.EASY]: { speed: 20, time: 90, extraLanes: 0, aggression: 0.6 },
+  [Difficulty.MEDIUM]: { speed: 30, time: 60, extraLanes: 0, aggression: 1 },
+  [Difficulty.HARD]: { speed: 45, time: 45, extraLanes: 2, aggression: 1.4 }, // Hard starts wider and faster
 };
 
-export const useStore = create<GameState>((set, get) => ({
+export const getAggression = (diff: Difficulty) => DIFFICULTY_SETTINGS[diff].aggression;
+
+const getTargetLetters = (level: number, customWord: string | null) =>
+  splitTargetWord(customWord ?? getLevelDefinition(level).targetWord);
+
+const getLaneCount = (level: number, diff: Difficulty) =>
+  Math.min(getLevelDefinition(level).laneCount + DIFFICULTY_SETTINGS[diff].extraLanes, MAX_LANES);
+
+// Exposed as a creator so headless simulations can run against their own vanilla store
+export const createGameState: StateCreator<GameState> = (set, get) => ({
   status: GameStatus.MENU,
   score: 0,
   lives: 3,
   maxLives: 3,
   speed: 0,
   collectedLetters: [],
+  targetLetters: getTargetLetters(1, null),
+  customWord: null,
   level: 1,
   laneCount: 3,
   gemsCollected: 0,
   distance: 0,
+  lastDamageSource: null,
+  combo: 0,
+  comboTime: 0,
+  bestCombo: 0,
+  levelHits: 0,
+  scoreBreakdown: createScoreBreakdown(),
+  creditsSpent: 0,
   difficulty: Difficulty.EASY,
   timeLeft: 60,
   maxTime: 60,
+  seed: 0,
+  seeded: false,
+  runId: 0,
   
-  hasDoubleJump: false,
-  hasImmortality: false,
-  isImmortalityActive: false,
+  inventory: {},
+  powerUps: {},
+  boss: null,
 
-  startGame: (diff: Difficulty) => {
+  startGame: (diff: Difficulty, seed?: number, options = {}) => {
     const settings = DIFFICULTY_SETTINGS[diff];
+    const customWord = options.targetWord ?? null;
     set({ 
         status: GameStatus.PLAYING, 
         score: 0, 
@@ -88,27 +149,53 @@ export const useStore = create<GameState>((set, get) => ({
         timeLeft: settings.time,
         maxTime: settings.time,
         collectedLetters: [],
+        targetLetters: getTargetLetters(1, customWord),
+        customWord,
         level: 1,
-        laneCount: settings.lanes,
+        laneCount: getLaneCount(1, diff),
         gemsCollected: 0,
         distance: 0,
+        lastDamageSource: null,
+        combo: 0,
+        comboTime: 0,
+        bestCombo: 0,
+        levelHits: 0,
+        scoreBreakdown: createScoreBreakdown(),
+        creditsSpent: 0,
         difficulty: diff,
-        hasDoubleJump: false,
-        hasImmortality: false,
-        isImmortalityActive: false
+        seed: seed ?? createSeed(),
+        seeded: seed !== undefined,
+        runId: get().runId + 1,
+        inventory: {},
+        powerUps: {},
+        boss: null
     });
   },
 
   restartGame: () => {
-      // Restart with same difficulty
-      const diff = get().difficulty;
-      get().startGame(diff);
+      // Restart with same difficulty and word; a chosen seed is kept so that track can be retried
+      const { difficulty, seed, seeded, customWord } = get();
+      get().startGame(difficulty, seeded ? seed : undefined, { targetWord: customWord ?? undefined });
   },
 
   decrementTimer: (delta) => {
-      const { timeLeft, status } = get();
+      const { timeLeft, status, inventory, powerUps, comboTime } = get();
       if (status !== GameStatus.PLAYING) return;
 
+      // Item timers run on simulation time so they stay deterministic
+      let changed = false;
+      const ticked: Inventory = {};
+      for (const [id, item] of Object.entries(inventory) as [ItemId, NonNullable<Inventory[ItemId]>][]) {
+          ticked[id] = tickOwnedItem(id, item, delta);
+          if (ticked[id] !== item) changed = true;
+      }
+      if (changed) set({ inventory: ticked });
+      if (Object.keys(powerUps).length > 0) set({ powerUps: tickPowerUps(powerUps, delta) });
+      if (comboTime > 0) {
+          const remaining = comboTime - delta;
+          set(remaining > 0 ? { comboTime: remaining } : { comboTime: 0, combo: 0 });
+      }
+
       const newTime = timeLeft - delta;
       if (newTime <= 0) {
           set({ timeLeft: 0, status: GameStatus.GAME_OVER, speed: 0 });
@@ -117,75 +204,132 @@ export const useStore = create<GameState>((set, get) => ({
       }
   },
 
-  takeDamage: () => {
-    const { lives, isImmortalityActive } = get();
-    if (isImmortalityActive) return; 
+  takeDamage: (source) => {
+    const { lives, levelHits } = get();
+    if (getModifiers(get()).invulnerable) return;
 
+    const lastDamageSource = source ?? null;
+    get().breakCombo();
     if (lives > 1) {
-      set({ lives: lives - 1 });
+      set({ lives: lives - 1, lastDamageSource, levelHits: levelHits + 1 });
     } else {
-      set({ lives: 0, status: GameStatus.GAME_OVER, speed: 0 });
+      set({ lives: 0, status: GameStatus.GAME_OVER, speed: 0, lastDamageSource, levelHits: levelHits + 1 });
     }
   },
 
-  addScore: (amount) => set((state) => ({ score: state.score + amount })),
+  addScore: (amount, source) => set((state) => {
+    const itemMultiplier = ITEM_MULTIPLIED_SOURCES.includes(source) ? getModifiers(state).scoreMultiplier : 1;
+    const awarded = Math.round(amount * itemMultiplier * getComboMultiplier(state.combo));
+    return {
+      score: state.score + awarded,
+      scoreBreakdown: { ...state.scoreBreakdown, [source]: state.scoreBreakdown[source] + awarded }
+    };
+  }),
   
-  collectGem: (value) => set((state) => ({ 
-    score: state.score + value, 
-    gemsCollected: state.gemsCollected + 1 
+  collectGem: (value) => {
+    set((state) => ({ gemsCollected: state.gemsCollected + 1 }));
+    get().addScore(value, 'GEMS');
+  },
+
+  extendCombo: () => set((state) => ({
+    combo: state.combo + 1,
+    comboTime: COMBO_WINDOW,
+    bestCombo: Math.max(state.bestCombo, state.combo + 1)
   })),
 
+  breakCombo: () => set({ combo: 0, comboTime: 0 }),
+
   setDistance: (dist) => set({ distance: dist }),
 
-  collectLetter: (index) => {
-    const { collectedLetters, level, speed, timeLeft } = get();
+  collectLetter: (letter) => {
+    const { collectedLetters, targetLetters, level, speed, timeLeft } = get();
+    const def = getLevelDefinition(level);
+
+    // Ordered spelling only accepts the next slot; free mode fills the first empty slot of that letter
+    const index = def.letterMode === 'ORDERED'
+      ? collectedLetters.length
+      : targetLetters.findIndex((char, i) => char === letter && !collectedLetters.includes(i));
+
+    if (index === -1 || index >= targetLetters.length) return 'UNNEEDED';
+
+    if (targetLetters[index] !== letter) {
+      const newTime = timeLeft - def.wrongLetterPenalty;
+      if (newTime <= 0) {
+          set({ timeLeft: 0, status: GameStatus.GAME_OVER, speed: 0 });
+      } else {
+          set({ timeLeft: newTime });
+      }
+      return 'WRONG_ORDER';
+    }
+
+    const newLetters = [...collectedLetters, index];
     
-    if (!collectedLetters.includes(index)) {
-      const newLetters = [...collectedLetters, index];
-      
-      // Collecting a letter adds time bonus!
-      const timeBonus = 5; 
-      
-      // Speed up slightly
-      const speedIncrease = speed * 0.05;
-      const nextSpeed = speed + speedIncrease;
-
-      set({ 
-        collectedLetters: newLetters,
-        speed: nextSpeed,
-        timeLeft: timeLeft + timeBonus
-      });
+    // Collecting a letter adds time bonus!
+    const timeBonus = def.letterTimeBonus; 
+    
+    // Speed up slightly
+    const speedIncrease = speed * def.speed.letterBoost;
+    const nextSpeed = speed + speedIncrease;
 
-      // Check if full word collected
-      if (newLetters.length === GEMINI_TARGET.length) {
-        if (level < MAX_LEVEL) {
-            get().advanceLevel();
-        } else {
-            set({
-                status: GameStatus.VICTORY,
-                score: get().score + 5000 + (Math.floor(timeLeft) * 100)
-            });
-        }
+    set({ 
+      collectedLetters: newLetters,
+      speed: nextSpeed,
+      timeLeft: timeLeft + timeBonus
+    });
+
+    // Check if full word collected
+    if (newLetters.length === targetLetters.length) {
+      if (def.boss) {
+          set({ boss: { health: def.boss.health, maxHealth: def.boss.health } });
+      } else {
+          get().completeLevel();
       }
     }
+    return 'COLLECTED';
+  },
+
+  damageBoss: (amount) => {
+    const { boss } = get();
+    if (!boss) return;
+
+    const health = Math.max(boss.health - amount, 0);
+    if (health > 0) {
+        set({ boss: { ...boss, health } });
+    } else {
+        set({ boss: null });
+        get().completeLevel();
+    }
+  },
+
+  completeLevel: () => {
+    const { level, timeLeft, levelHits } = get();
+    if (levelHits === 0) get().addScore(STYLE_POINTS.PERFECT_LEVEL, 'PERFECT_LEVEL');
+
+    if (level < MAX_LEVEL) {
+        get().advanceLevel();
+    } else {
+        get().addScore(5000 + (Math.floor(timeLeft) * 100), 'VICTORY');
+        set({ status: GameStatus.VICTORY });
+    }
   },
 
   advanceLevel: () => {
-      const { level, laneCount, speed, difficulty } = get();
+      const { level, speed, difficulty, customWord } = get();
       const nextLevel = level + 1;
+      const def = getLevelDefinition(nextLevel);
       
       // Increase speed and refill some time
-      const speedIncrease = 10;
-      const newSpeed = speed + speedIncrease;
-      const timeRefill = 30; // 30 seconds added for next level
+      const newSpeed = speed + def.speed.boost;
 
       set({
           level: nextLevel,
-          laneCount: Math.min(laneCount + 2, 9), 
+          laneCount: getLaneCount(nextLevel, difficulty), 
           status: GameStatus.PLAYING, 
           speed: newSpeed,
-          timeLeft: get().timeLeft + timeRefill,
-          collectedLetters: [] 
+          timeLeft: get().timeLeft + def.timeBonus,
+          collectedLetters: [],
+          targetLetters: getTargetLetters(nextLevel, customWord),
+          levelHits: 0
       });
   },
 
@@ -193,41 +337,52 @@ export const useStore = create<GameState>((set, get) => ({
   
   closeShop: () => set({ status: GameStatus.PLAYING }),
 
-  buyItem: (type, cost) => {
-      const { score, maxLives, lives, timeLeft } = get();
-      
-      if (score >= cost) {
-          set({ score: score - cost });
-          
-          switch (type) {
-              case 'DOUBLE_JUMP':
-                  set({ hasDoubleJump: true });
-                  break;
-              case 'MAX_LIFE':
-                  set({ maxLives: maxLives + 1, lives: lives + 1 });
-                  break;
-              case 'HEAL':
-                  set({ lives: Math.min(lives + 1, maxLives) });
-                  break;
-              case 'IMMORTAL':
-                  set({ hasImmortality: true });
-                  break;
-          }
-          return true;
-      }
-      return false;
+  buyItem: (id) => {
+      const state = get();
+      const cost = getItemCost(id, state.inventory);
+      if (cost === null || state.score < cost) return false;
+
+      const owned = state.inventory[id] ?? createOwnedItem(id);
+      set({
+          score: state.score - cost,
+          creditsSpent: state.creditsSpent + cost,
+          inventory: { ...state.inventory, [id]: { ...owned, tier: owned.tier + 1 } },
+          ...ITEM_REGISTRY[id].onBuy?.(state)
+      });
+      return true;
   },
 
-  activateImmortality: () => {
-      const { hasImmortality, isImmortalityActive } = get();
-      if (hasImmortality && !isImmortalityActive) {
-          set({ isImmortalityActive: true });
-          setTimeout(() => {
-              set({ isImmortalityActive: false });
-          }, 5000);
-      }
+  triggerItem: (trigger) => {
+      const { inventory } = get();
+      const id = getTriggeredItem(inventory, trigger);
+      const item = id && inventory[id];
+      if (!id || !item || !isItemReady(id, item)) return null;
+
+      const { duration = 0, cooldown = 0, energy } = ITEM_REGISTRY[id].activation!;
+      set({
+          inventory: {
+              ...inventory,
+              [id]: { ...item, activeTime: duration, cooldown, energy: item.energy - (energy?.cost ?? 0) }
+          }
+      });
+      return id;
   },
 
+  collectPowerUp: (kind) => set((state) => ({ powerUps: addPowerUp(state.powerUps, kind) })),
+
+  consumePowerUp: (kind) => set((state) => ({ powerUps: removePowerUp(state.powerUps, kind) })),
+
   setStatus: (status) => set({ status }),
+
+  // The simulation only steps while PLAYING, so pausing freezes the timer and abilities too
+  pauseGame: () => {
+      if (get().status === GameStatus.PLAYING) set({ status: GameStatus.PAUSED });
+  },
+
+  resumeGame: () => {
+      if (get().status === GameStatus.PAUSED) set({ status: GameStatus.PLAYING });
+  },
   increaseLevel: () => set((state) => ({ level: state.level + 1 })),
-}));
\ No newline at end of file
+});
+
+export const useStore = create<GameState>()(createGameState);
\ No newline at end of file
@@ -4,12 +4,16 @@
 */
 
 
+import type { GameState } from './store';
+
 export enum GameStatus {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   SHOP = 'SHOP',
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
+  VICTORY = 'VICTORY',
+  REPLAY = 'REPLAY' // Watching a recorded run
 }
 
 export enum Difficulty {
@@ -19,13 +23,17 @@ export enum Difficulty {
 }
 
 export enum ObjectType {
-  OBSTACLE = 'OBSTACLE', // Generic debris
+  OBSTACLE = 'OBSTACLE', // Debris spanning several lanes, see ObstacleKind
   GEM = 'GEM',
   LETTER = 'LETTER',
   SHOP_PORTAL = 'SHOP_PORTAL',
   MONSTER = 'MONSTER', // Yokai
   FLOWER = 'FLOWER',   // Man-eating flower
-  MISSILE = 'MISSILE'
+  MISSILE = 'MISSILE',
+  BOSS = 'BOSS',             // Final guardian, holds position ahead of the player
+  CHARGE_GEM = 'CHARGE_GEM', // Damages the boss when collected
+  PROJECTILE = 'PROJECTILE', // Blaster shot fired by the player
+  POWERUP = 'POWERUP'        // Timed boost, see PowerUpKind
 }
 
 export interface GameObject {
@@ -35,9 +43,92 @@ export interface GameObject {
   active: boolean;
   value?: string; // For letters (G, E, M...)
   color?: string;
-  targetIndex?: number; // Index in the GEMINI target word
   points?: number; // Score value for gems
   hasFired?: boolean; // For Monsters
+  obstacleKind?: ObstacleKind; // For obstacles
+  lanes?: number[]; // Lanes an obstacle blocks
+  aggressive?: boolean; // Outcome of the object's behaviour roll, undefined until rolled
+  targetX?: number; // Where a lunging flower is heading
+  lockOn?: number; // Seconds a homing missile telegraphs before it starts steering
+  cooldown?: number; // Seconds until a boss's next volley
+  volley?: number; // Volleys a boss has fired, to cycle its patterns
+  fromBoss?: boolean; // Boss missiles can be reflected back with Phase Shift
+  powerUp?: PowerUpKind; // For power-up pickups
+}
+
+// BARRIER: low, jump it. BEAM: overhead, stay low or slide. WALL: full height, find the gap
+export type ObstacleKind = 'BARRIER' | 'BEAM' | 'WALL';
+
+// --- LEVEL DEFINITIONS (loaded from data/levels.json) ---
+
+// SWEEP: lane by lane across the track. SPREAD: every lane but one. AIMED: a burst down the player's lane
+export type BossPattern = 'SWEEP' | 'SPREAD' | 'AIMED';
+
+export interface BossDefinition {
+    health: number;
+    volleyInterval: number; // Seconds between volleys
+    patterns: BossPattern[]; // Cycled in order
+    chargeInterval: number;  // Distance between charge gem spawns
+    chargeDamage: number;    // Per charge gem collected
+    reflectDamage: number;   // Per boss missile taken while Phase Shift is active
+}
+
+export interface LevelTheme {
+    tunnel: string;  // Warp tunnel rings
+    lanes: string;   // Lane separators
+    stars: string;   // Star stream
+    light: string;   // Key light
+    ambient: string; // Ambient light
+    fog: string;     // Fog, and the background it fades into
+    fogNear: number; // Distance the fog starts at
+    fogFar: number;  // Distance it hides everything
+}
+
+// FREE: any pickup fills the next empty slot of its letter
+// ORDERED: letters must be picked up in sequence, others cost time
+export type LetterMode = 'FREE' | 'ORDERED';
+
+// Enemy behaviour for a level; chances are per object, speeds in units per second.
+// The run's difficulty scales these further (see scaleAiProfile)
+export interface AiProfile {
+    monster: {
+        strafeChance: number; // Slides toward the player's lane while approaching
+        strafeSpeed: number;
+        fireRange: number;    // Distance at which it fires its missile
+    };
+    missile: {
+        homingChance: number;
+        lockOnTime: number;   // Warning before a homing missile starts steering
+        turnRate: number;     // Sideways speed while homing
+    };
+    flower: {
+        lungeChance: number;  // Lunges into the player's lane from the next one over
+        lungeRange: number;   // How close the player has to be
+        lungeSpeed: number;
+    };
+}
+
+export interface LevelDefinition {
+    name: string;
+    targetWord: string;
+    laneCount: number; // Before the difficulty's extra lanes
+    speed: {
+        boost: number;       // Added to the current speed when the level starts
+        letterBoost: number; // Fraction of current speed added per collected letter
+    };
+    timeBonus: number;       // Seconds added when the level starts
+    letterTimeBonus: number; // Seconds added per collected letter
+    letterMode: LetterMode;
+    wrongLetterPenalty: number; // Seconds lost per out-of-order pickup (ORDERED only)
+    letterInterval: number;  // Distance between letter spawns
+    spawnChance: number;     // Chance that a spawn slot gets anything at all
+    pairChance: number;      // Chance that hazards spawn two lanes at once
+    spawnWeights: Partial<Record<ObjectType, number>>; // Relative odds per spawnable type
+    minSpeed?: Partial<Record<ObjectType, number>>;    // A type only spawns once speed exceeds this
+    obstacleKinds: ObstacleKind[]; // Debris families OBSTACLE spawns pick from
+    ai: AiProfile;
+    boss?: BossDefinition; // Spelling the word summons a boss, and the level only ends when it falls
+    theme: LevelTheme;
 }
 
 export const LANE_WIDTH = 2.2;
@@ -57,11 +148,100 @@ export const GEMINI_COLORS = [
     '#ff1744', // I - Red
 ];
 
+// --- ITEMS (see components/System/Items.ts) ---
+
+export type ItemId = 'DOUBLE_JUMP' | 'MAX_LIFE' | 'HEAL' | 'IMMORTAL' | 'BLASTER' | 'MAGNET' | 'MULTIPLIER';
+
+// Inputs an owned item can be bound to
+export type ItemTrigger = 'ABILITY' | 'FIRE';
+
+// Everything that items change about a run, rebuilt from the inventory whenever it is needed
+export interface Modifiers {
+    maxJumps: number;
+    invulnerable: boolean;   // No damage taken; boss missiles are reflected back
+    magnetRange: number;     // Magnetic pickups this far ahead are pulled in, 0 for none
+    scoreMultiplier: number; // Applied to gems and destroyed enemies
+    shielded: boolean;       // The next hit is absorbed instead of costing a life
+    speedScale: number;      // Applied to the track speed
+}
+
+// Per-run state of an item that has been bought at least once
+export interface OwnedItem {
+    tier: number;       // Times bought
+    activeTime: number; // Seconds its activated effect has left
+    cooldown: number;   // Seconds until it can be triggered again
+    energy: number;     // For items that spend energy per use
+}
+
+export type Inventory = Partial<Record<ItemId, OwnedItem>>;
+
+export interface ItemActivation {
+    trigger: ItemTrigger;
+    duration?: number;    // Seconds the effect lasts once triggered
+    cooldown?: number;    // Seconds between triggers
+    energy?: { max: number; cost: number; recharge: number }; // Spent per trigger, recharged per second
+    spawns?: ObjectType;  // Fired from the player when triggered
+}
+
 export interface ShopItem {
-    id: string;
+    id: ItemId;
     name: string;
     description: string;
-    cost: number;
     icon: any; // Lucide icon component
-    oneTime?: boolean; // If true, remove from pool after buying
-}
\ No newline at end of file
+    cost: number[]; // Price of each tier in turn; sold out once every tier is bought
+    stackable?: boolean; // Never sells out, every purchase repeats the last price
+    activation?: ItemActivation;
+    onBuy?: (state: GameState) => Partial<GameState>; // Instant effects of a purchase
+    modify?: (modifiers: Modifiers, item: OwnedItem) => void; // Passive effects, plus active ones while activeTime > 0
+}
+
+// --- POWER-UPS (see components/System/PowerUps.ts) ---
+
+export type PowerUpKind = 'MAGNET' | 'SHIELD' | 'SLOW_MO' | 'MULTIPLIER';
+
+// Picking up a power-up that is already running either restarts its timer or adds to it
+export type PowerUpStacking = 'REFRESH' | 'EXTEND';
+
+// Seconds left on each running power-up
+export type ActivePowerUps = Partial<Record<PowerUpKind, number>>;
+
+export interface PowerUpDefinition {
+    kind: PowerUpKind;
+    name: string;
+    color: string;
+    icon: any; // Lucide icon component
+    duration: number; // Seconds
+    stacking: PowerUpStacking;
+    maxDuration: number; // EXTEND never builds up more than this
+    modify: (modifiers: Modifiers) => void; // Applied after every item's own effects
+}
+
+// --- SCORING (see components/System/Scoring.ts) ---
+
+// NEAR_MISS: a hazard passes in the next lane over at speed. BARREL_ROLL: double-jumping over an enemy.
+// PERFECT_LEVEL: clearing a level without taking a hit
+export type StyleBonus = 'NEAR_MISS' | 'BARREL_ROLL' | 'PERFECT_LEVEL';
+
+export type ScoreSource = 'GEMS' | 'ENEMIES' | 'VICTORY' | StyleBonus;
+
+// Points awarded per source over a run, after the combo multiplier (and item multipliers for gems and kills)
+export type ScoreBreakdown = Record<ScoreSource, number>;
+
+// Everything the player did during a run, stamped with the simulation tick it was applied on
+export type ReplayAction = 'LEFT' | 'RIGHT' | 'JUMP' | 'SLIDE' | 'ABILITY' | 'FIRE' | 'BUY' | 'CLOSE_SHOP';
+
+export interface ReplayInput {
+    tick: number;
+    action: ReplayAction;
+    item?: string; // BUY only
+    cost?: number; // BUY only, what was paid (informational; prices come from the item registry)
+}
+
+// Seed + difficulty + inputs is enough to re-simulate a run exactly
+export interface Replay {
+    seed: number;
+    difficulty: Difficulty;
+    targetWord?: string; // Only set for runs with a custom word
+    ticks: number; // Total run length
+    inputs: ReplayInput[];
+}